@@ -0,0 +1,175 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import { optimize } from 'svgo/browser'
+import { resolveSvgoConfig } from './svgoConfig'
+import { calculateSavings, formatBytes } from './utils'
+import { getOutputChannel } from './outputChannel'
+import { compareRenderings } from './visualGuard'
+
+const SVG_GLOB = '**/*.svg'
+const EXCLUDE_GLOB = '**/node_modules/**'
+
+export interface BatchFileResult {
+  uri: vscode.Uri
+  status: 'optimized' | 'skipped' | 'failed'
+  originalSize: number
+  optimizedSize: number
+  savingPercent?: string
+  reason?: string
+}
+
+/**
+ * Expands the selected Explorer resources (folders and files) into the SVG files they contain.
+ * Without a selection, asks for a glob and searches the whole workspace
+ */
+export async function collectSvgFiles (targets: vscode.Uri[]): Promise<vscode.Uri[] | undefined> {
+  if (targets.length === 0) {
+    const glob = await vscode.window.showInputBox({
+      prompt: 'Glob pattern of the SVG files to optimize',
+      value: SVG_GLOB
+    })
+    if (!glob) {
+      return undefined
+    }
+    // A broad pattern like **/* must not run SVGO over other files
+    const found = await vscode.workspace.findFiles(glob, EXCLUDE_GLOB)
+    return found.filter(uri => uri.path.toLowerCase().endsWith('.svg'))
+  }
+
+  const files = new Map<string, vscode.Uri>()
+
+  for (const target of targets) {
+    const stat = await vscode.workspace.fs.stat(target)
+    if (stat.type & vscode.FileType.Directory) {
+      const found = await vscode.workspace.findFiles(new vscode.RelativePattern(target, SVG_GLOB), EXCLUDE_GLOB)
+      found.forEach(uri => files.set(uri.toString(), uri))
+    } else if (target.path.toLowerCase().endsWith('.svg')) {
+      files.set(target.toString(), target)
+    }
+  }
+
+  return [...files.values()].sort((a, b) => a.path.localeCompare(b.path))
+}
+
+async function optimizeSvgFile (uri: vscode.Uri): Promise<BatchFileResult> {
+  const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString())
+  if (openDocument?.isDirty) {
+    return { uri, status: 'skipped', originalSize: 0, optimizedSize: 0, reason: 'unsaved changes' }
+  }
+
+  const bytes = await vscode.workspace.fs.readFile(uri)
+  const svgContent = Buffer.from(bytes).toString('utf8')
+  const { config } = await resolveSvgoConfig(uri)
+
+  const result = optimize(svgContent, {
+    ...config,
+    path: uri.fsPath
+  })
+
+  const { originalSize, optimizedSize, savingPercent } = calculateSavings(svgContent, result.data)
+
+  if (optimizedSize >= originalSize) {
+    return { uri, status: 'skipped', originalSize, optimizedSize, reason: 'would not shrink' }
+  }
+
+  const { difference, passed, error } = await compareRenderings(svgContent, result.data)
+  if (!passed) {
+    return { uri, status: 'skipped', originalSize, optimizedSize, reason: error ?? `renders ${difference.toFixed(2)}% different` }
+  }
+
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(result.data, 'utf8'))
+
+  return { uri, status: 'optimized', originalSize, optimizedSize, savingPercent }
+}
+
+/**
+ * Optimizes every file with cancellable progress, then writes a summary to the output channel
+ */
+export async function optimizeSvgFiles (uris: vscode.Uri[]): Promise<BatchFileResult[]> {
+  const results: BatchFileResult[] = []
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Optimizing SVG files',
+      cancellable: true
+    },
+    async (progress, token) => {
+      for (const [index, uri] of uris.entries()) {
+        if (token.isCancellationRequested) {
+          break
+        }
+
+        progress.report({
+          message: `${index + 1}/${uris.length} ${vscode.workspace.asRelativePath(uri)}`,
+          increment: 100 / uris.length
+        })
+
+        try {
+          results.push(await optimizeSvgFile(uri))
+        } catch (error: any) {
+          results.push({ uri, status: 'failed', originalSize: 0, optimizedSize: 0, reason: error.message ?? String(error) })
+        }
+      }
+    }
+  )
+
+  writeBatchReport(results, uris.length)
+
+  return results
+}
+
+function writeBatchReport (results: BatchFileResult[], total: number) {
+  const output = getOutputChannel()
+  const optimized = results.filter(result => result.status === 'optimized')
+  const originalTotal = optimized.reduce((sum, result) => sum + result.originalSize, 0)
+  const optimizedTotal = optimized.reduce((sum, result) => sum + result.optimizedSize, 0)
+  const savedTotal = originalTotal - optimizedTotal
+  const savedPercent = originalTotal > 0 ? (savedTotal / originalTotal * 100).toFixed(2) : '0.00'
+
+  output.appendLine(`Batch optimization (${new Date().toLocaleString()})`)
+
+  for (const result of results) {
+    const file = vscode.workspace.asRelativePath(result.uri)
+    if (result.status === 'optimized') {
+      output.appendLine(`  ${file}: ${formatBytes(result.originalSize)} → ${formatBytes(result.optimizedSize)} (${result.savingPercent}% saved)`)
+    } else {
+      output.appendLine(`  ${file}: ${result.status} (${result.reason})`)
+    }
+  }
+
+  const skipped = results.filter(result => result.status === 'skipped').length
+  const failed = results.filter(result => result.status === 'failed').length
+  const cancelled = total - results.length
+
+  output.appendLine(
+    `Total: ${optimized.length} optimized, ${skipped} skipped, ${failed} failed` +
+    (cancelled > 0 ? `, ${cancelled} cancelled` : '') +
+    `. Saved ${formatBytes(savedTotal)} of ${formatBytes(originalTotal)} (${savedPercent}%)`
+  )
+  output.appendLine('')
+
+  vscode.window.showInformationMessage(
+    `Optimized ${optimized.length} of ${total} SVG files. Saved ${formatBytes(savedTotal)} (${savedPercent}%)`,
+    'Show Report'
+  ).then(choice => {
+    if (choice === 'Show Report') {
+      output.show(true)
+    }
+  })
+}
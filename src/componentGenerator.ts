@@ -0,0 +1,152 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { optimize } from 'svgo/browser'
+import { resolveSvgoConfig } from './svgoConfig'
+import { getProjectDialect } from './projectDialect'
+import {
+  buildComponent,
+  COMPONENT_EXTENSIONS,
+  COMPONENT_FRAMEWORKS,
+  ComponentFramework,
+  toComponentName
+} from './svgComponent'
+
+const FRAMEWORK_LABELS: Record<ComponentFramework, string> = {
+  react: 'React (TSX)',
+  vue: 'Vue (SFC)',
+  svelte: 'Svelte',
+  astro: 'Astro',
+  solid: 'Solid (TSX)'
+}
+
+/**
+ * Framework of the component: `betterSvg.component.framework` when set, a quick pick otherwise
+ * (with the framework detected for the project first). Returns undefined if the pick was cancelled
+ */
+async function pickFramework (uri: vscode.Uri): Promise<ComponentFramework | undefined> {
+  const configured = vscode.workspace.getConfiguration('betterSvg.component').get<string>('framework', 'ask')
+  if ((COMPONENT_FRAMEWORKS as readonly string[]).includes(configured)) {
+    return configured as ComponentFramework
+  }
+
+  const dialect = getProjectDialect(uri)
+  const detected: ComponentFramework | undefined = dialect === 'react' || dialect === 'preact'
+    ? 'react'
+    : dialect === 'solid' ? 'solid' : undefined
+
+  const items = COMPONENT_FRAMEWORKS
+    .map(framework => ({
+      label: FRAMEWORK_LABELS[framework],
+      description: framework === detected ? 'detected' : undefined,
+      framework
+    }))
+    .sort((a, b) => Number(b.framework === detected) - Number(a.framework === detected))
+
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Framework of the component' })
+  return picked?.framework
+}
+
+/**
+ * Folder of the generated component: next to the SVG, or `betterSvg.component.outputFolder`
+ * relative to the workspace folder of the SVG
+ */
+function getOutputFolder (uri: vscode.Uri): vscode.Uri {
+  const outputFolder = vscode.workspace.getConfiguration('betterSvg.component').get<string>('outputFolder', '').trim()
+  const svgFolder = vscode.Uri.joinPath(uri, '..')
+  if (!outputFolder) {
+    return svgFolder
+  }
+
+  if (path.isAbsolute(outputFolder)) {
+    return vscode.Uri.file(outputFolder)
+  }
+
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri)
+  return vscode.Uri.joinPath(workspaceFolder?.uri ?? svgFolder, outputFolder)
+}
+
+async function fileExists (uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Turns an SVG file into a React, Vue, Svelte, Astro or Solid component, from its optimized markup
+ */
+export async function generateComponent (uri?: vscode.Uri) {
+  const target = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri
+  if (!target || !target.path.toLowerCase().endsWith('.svg')) {
+    vscode.window.showErrorMessage('Not an SVG file')
+    return
+  }
+
+  const framework = await pickFramework(target)
+  if (!framework) {
+    return
+  }
+
+  const config = vscode.workspace.getConfiguration('betterSvg.component')
+
+  try {
+    // Prefer the open document, it may have unsaved changes
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === target.toString())
+    const svgContent = openDocument?.getText() ?? Buffer.from(await vscode.workspace.fs.readFile(target)).toString('utf8')
+
+    // Classes are kept as the component may be styled with them
+    const { config: svgoConfig } = await resolveSvgoConfig(target, { inline: true })
+    const { data } = optimize(svgContent, {
+      ...svgoConfig,
+      path: target.fsPath,
+      js2svg: { ...svgoConfig.js2svg, pretty: true, indent: 2 }
+    })
+
+    const name = toComponentName(path.basename(target.path), config.get<string>('name', '{name}Icon'))
+    const component = buildComponent(data, {
+      name,
+      framework,
+      size: config.get<number | string>('defaultSize', 24),
+      color: config.get<string>('defaultColor', 'currentColor')
+    })
+
+    const folder = getOutputFolder(target)
+    const fileUri = vscode.Uri.joinPath(folder, `${name}${COMPONENT_EXTENSIONS[framework]}`)
+
+    if (await fileExists(fileUri)) {
+      const overwrite = 'Overwrite'
+      const choice = await vscode.window.showWarningMessage(
+        `${vscode.workspace.asRelativePath(fileUri)} already exists`,
+        { modal: true },
+        overwrite
+      )
+      if (choice !== overwrite) {
+        return
+      }
+    }
+
+    await vscode.workspace.fs.createDirectory(folder)
+    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(component, 'utf8'))
+    await vscode.window.showTextDocument(fileUri)
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to generate component: ${error}`)
+  }
+}
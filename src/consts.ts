@@ -29,4 +29,12 @@ export const SUPPORTED_LANGUAGES = [
   'vue',
   'xml',
   'liquid',
+  'blade',
+  'twig',
+  'jinja',
+  'jinja-html',
+  'django-html',
+  'nunjucks',
+  'handlebars',
+  'gotmpl',
 ]
\ No newline at end of file
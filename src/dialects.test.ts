@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { detectProjectDialect, getDialectOptions, resolveDialect } from './dialects'
+
+describe('detectProjectDialect', () => {
+    it('should prefer the jsxImportSource of tsconfig.json', () => {
+        const pkg = JSON.stringify({ dependencies: { react: '^19.0.0', 'solid-js': '^1.9.0' } })
+        const tsconfig = '{\n  // Solid components\n  "compilerOptions": { "jsx": "preserve", "jsxImportSource": "solid-js" }\n}'
+        assert.strictEqual(detectProjectDialect(pkg, tsconfig), 'solid')
+    })
+
+    it('should detect frameworks from dependencies', () => {
+        const detect = (dependencies: Record<string, string>) => detectProjectDialect(JSON.stringify({ dependencies }))
+        assert.strictEqual(detect({ '@angular/core': '^19.0.0' }), 'angular')
+        assert.strictEqual(detect({ '@builder.io/qwik': '^1.0.0' }), 'qwik')
+        assert.strictEqual(detect({ preact: '^10.0.0' }), 'preact')
+        assert.strictEqual(detect({ preact: '^10.0.0', react: '^19.0.0' }), undefined)
+        assert.strictEqual(detect({ vue: '^3.0.0' }), undefined)
+    })
+
+    it('should read devDependencies and ignore invalid files', () => {
+        assert.strictEqual(detectProjectDialect(JSON.stringify({ devDependencies: { 'solid-js': '1' } })), 'solid')
+        assert.strictEqual(detectProjectDialect('{ invalid'), undefined)
+        assert.strictEqual(detectProjectDialect(), undefined)
+    })
+})
+
+describe('resolveDialect', () => {
+    it('should use JSX dialects only in JSX files', () => {
+        assert.strictEqual(resolveDialect('typescriptreact'), 'react')
+        assert.strictEqual(resolveDialect('typescriptreact', 'qwik'), 'qwik')
+        assert.strictEqual(resolveDialect('typescriptreact', 'angular'), 'react')
+        assert.strictEqual(resolveDialect('vue', 'solid'), 'markup')
+    })
+
+    it('should use Angular in templates and components', () => {
+        assert.strictEqual(resolveDialect('html', 'angular'), 'angular')
+        assert.strictEqual(resolveDialect('typescript', 'angular'), 'angular')
+        assert.strictEqual(resolveDialect('html'), 'markup')
+    })
+
+    it('should keep the casing of each framework', () => {
+        assert.strictEqual(getDialectOptions('react').useCamelCase, true)
+        assert.strictEqual(getDialectOptions('solid').useCamelCase, false)
+        assert.strictEqual(getDialectOptions('markup').jsx, undefined)
+    })
+})
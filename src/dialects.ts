@@ -0,0 +1,128 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { OptimizationOptions } from './svgTransform'
+
+export const SVG_DIALECTS = ['react', 'preact', 'solid', 'qwik', 'angular'] as const
+
+/**
+ * Framework an inline SVG is written for, `template` being server templates (Blade, Twig, Jinja, ERB...)
+ * and `markup` plain HTML, Vue, Svelte, Astro...
+ */
+export type SvgDialect = typeof SVG_DIALECTS[number] | 'template' | 'markup'
+
+/**
+ * How each dialect writes attributes, directives and interpolations
+ */
+const DIALECT_OPTIONS: Record<SvgDialect, OptimizationOptions> = {
+  react: { useCamelCase: true, jsx: true },
+  // Preact sets SVG attributes as written, camelCase names need preact/compat
+  preact: { useCamelCase: false, jsx: true },
+  solid: { useCamelCase: false, jsx: true, directives: /^(prop:|attr:|bool:|oncapture:)/ },
+  qwik: { useCamelCase: false, jsx: true, directives: /^(preventdefault:|stoppropagation:|q:)|\$$/ },
+  // [attr.fill]="color", (click)="select()", *ngIf="visible", #icon, bind-fill, on-click
+  angular: { useCamelCase: false, directives: /^(\[|\(|\*|#|bind-|bindon-|on-|let-|ref-|i18n)/, controlFlow: true },
+  template: { useCamelCase: false, templateTags: true },
+  markup: { useCamelCase: false }
+}
+
+const JSX_LANGUAGES = ['javascriptreact', 'typescriptreact']
+// Angular templates live in .html files and in the `template` of .ts components
+const ANGULAR_LANGUAGES = ['html', 'typescript']
+const TEMPLATE_LANGUAGES = [
+  'blade',
+  'django-html',
+  'ejs',
+  'erb',
+  'gotmpl',
+  'handlebars',
+  'jinja',
+  'jinja-html',
+  'liquid',
+  'nunjucks',
+  'php',
+  'twig'
+]
+
+// JSX runtimes configured with tsconfig's jsxImportSource
+const JSX_IMPORT_SOURCES: Record<string, SvgDialect> = {
+  react: 'react',
+  preact: 'preact',
+  'solid-js': 'solid',
+  '@builder.io/qwik': 'qwik',
+  '@qwik.dev/core': 'qwik'
+}
+
+/**
+ * Detects the framework of a project from the contents of its package.json and tsconfig.json (or jsconfig.json).
+ * Returns undefined when nothing specific is found
+ */
+export function detectProjectDialect (packageJson?: string, tsconfig?: string): SvgDialect | undefined {
+  // tsconfig files allow comments, so only the option is looked for
+  const importSource = tsconfig?.match(/"jsxImportSource"\s*:\s*"([^"]+)"/)?.[1]
+  if (importSource && importSource in JSX_IMPORT_SOURCES) {
+    return JSX_IMPORT_SOURCES[importSource]
+  }
+
+  let dependencies: Record<string, unknown> = {}
+  try {
+    const pkg = JSON.parse(packageJson ?? '{}')
+    dependencies = { ...pkg.peerDependencies, ...pkg.devDependencies, ...pkg.dependencies }
+  } catch {
+    return undefined
+  }
+
+  const has = (name: string) => name in dependencies
+
+  if (has('@angular/core')) {
+    return 'angular'
+  }
+  if (has('solid-js')) {
+    return 'solid'
+  }
+  if (has('@builder.io/qwik') || has('@qwik.dev/core')) {
+    return 'qwik'
+  }
+  // preact/compat projects usually alias react instead of depending on it
+  if (has('preact') && !has('react')) {
+    return 'preact'
+  }
+
+  return undefined
+}
+
+/**
+ * Dialect of the SVGs of a document, given the dialect of its project (detected or configured)
+ */
+export function resolveDialect (languageId: string, projectDialect?: SvgDialect): SvgDialect {
+  if (JSX_LANGUAGES.includes(languageId)) {
+    return projectDialect && DIALECT_OPTIONS[projectDialect].jsx ? projectDialect : 'react'
+  }
+
+  if (ANGULAR_LANGUAGES.includes(languageId) && projectDialect === 'angular') {
+    return 'angular'
+  }
+
+  if (TEMPLATE_LANGUAGES.includes(languageId)) {
+    return 'template'
+  }
+
+  return 'markup'
+}
+
+export function getDialectOptions (dialect: SvgDialect): OptimizationOptions {
+  return { ...DIALECT_OPTIONS[dialect] }
+}
@@ -18,11 +18,35 @@ import * as vscode from 'vscode'
 import { SvgPreviewProvider } from './svgEditorProvider'
 import { SvgGutterPreview, SvgHoverProvider } from './svgGutterPreview'
 import { optimize } from 'svgo/browser'
-import { prepareForOptimization, finalizeAfterOptimization } from './svgTransform'
 import { SUPPORTED_LANGUAGES } from './consts'
+import { calculateSavings, SvgBlock } from './utils'
+import { isValidSvg, runInlineOptimization } from './svgOptimizer'
+import { compareRenderings, optimizeWithVisualGuard } from './visualGuard'
+import { pickSvgoProfile, resolveSvgoConfig } from './svgoConfig'
+import { OptimizationReviewProvider, REVIEW_SCHEME, shouldReviewOptimization } from './optimizationReview'
+import { collectSvgFiles, optimizeSvgFiles } from './batchOptimize'
+import { disposeOutputChannel, getOutputChannel } from './outputChannel'
+import { onWillSaveTextDocument } from './optimizeOnSave'
+import { showOptimizationReport } from './optimizationReport'
+import {
+  convertInlineSvgToDataUri,
+  extractInlineSvg,
+  extractInlineSvgToImport,
+  InlineSvgArgs,
+  inlineSvgFile,
+  resolveInlineSvgTarget,
+  SvgCodeActionProvider
+} from './svgCodeActions'
+import { SvgDiagnostics, SvgLintCodeActionProvider } from './svgDiagnostics'
+import { clearProjectDialectCache, getProjectDialect, svgLocator } from './projectDialect'
+import { generateComponent } from './componentGenerator'
+import { registerSvgPasteEditProvider } from './svgPaste'
+import { replaceMinimally } from './textEdits'
+import { formatSvgCommand, getInlineLayout, SvgFormattingProvider } from './svgFormatting'
 
 let previewProvider: SvgPreviewProvider
 let gutterPreview: SvgGutterPreview
+let reviewProvider: OptimizationReviewProvider
 
 export function activate (context: vscode.ExtensionContext) {
   try {
@@ -44,6 +68,25 @@ export function activate (context: vscode.ExtensionContext) {
       )
     )
 
+    // Register virtual documents used to review optimizations in the diff editor
+    reviewProvider = new OptimizationReviewProvider()
+    context.subscriptions.push(
+      reviewProvider,
+      vscode.workspace.registerTextDocumentContentProvider(REVIEW_SCHEME, reviewProvider),
+      vscode.commands.registerCommand('betterSvg.applyOptimization', (uri?: vscode.Uri) => {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri
+        if (target?.scheme === REVIEW_SCHEME) {
+          return reviewProvider.apply(target)
+        }
+      }),
+      vscode.commands.registerCommand('betterSvg.discardOptimization', (uri?: vscode.Uri) => {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri
+        if (target?.scheme === REVIEW_SCHEME) {
+          return reviewProvider.discard(target)
+        }
+      })
+    )
+
     // Initialize SVG Gutter Preview
     gutterPreview = new SvgGutterPreview()
     if (vscode.window.activeTextEditor) {
@@ -61,6 +104,16 @@ export function activate (context: vscode.ExtensionContext) {
       )
     )
 
+    // Located inline SVGs are kept per document version until the document is closed
+    context.subscriptions.push(
+      vscode.workspace.onDidCloseTextDocument(document => svgLocator.delete(document.uri)),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('betterSvg.dialect')) {
+          svgLocator.clear()
+        }
+      })
+    )
+
     // Update decorations when active editor changes
     context.subscriptions.push(
       vscode.window.onDidChangeActiveTextEditor(editor => {
@@ -70,33 +123,17 @@ export function activate (context: vscode.ExtensionContext) {
       })
     )
 
-    // Update decorations when document changes
-    let timeout: NodeJS.Timeout | undefined
-    const triggerUpdate = (editor: vscode.TextEditor) => {
-      if (timeout) {
-        clearTimeout(timeout)
-      }
-      timeout = setTimeout(() => {
-        gutterPreview.updateDecorations(editor)
-      }, 500)
-    }
-
+    // Move the gutter icons along with the edits, and update the SVGs they touched once typing pauses
     context.subscriptions.push(
-      vscode.workspace.onDidChangeTextDocument(e => {
-        const editor = vscode.window.activeTextEditor
-        if (editor && editor.document === e.document) {
-          triggerUpdate(editor)
-        }
-      })
+      gutterPreview,
+      vscode.workspace.onDidChangeTextDocument(e => gutterPreview.onDidChangeTextDocument(e)),
+      vscode.workspace.onDidCloseTextDocument(document => gutterPreview.deleteDocument(document.uri))
     )
 
     // Update decorations when theme changes
     context.subscriptions.push(
       vscode.window.onDidChangeActiveColorTheme(() => {
-        const editor = vscode.window.activeTextEditor
-        if (editor) {
-          gutterPreview.updateDecorations(editor)
-        }
+        vscode.window.visibleTextEditors.forEach(editor => gutterPreview.updateDecorations(editor))
       })
     )
 
@@ -217,7 +254,12 @@ export function activate (context: vscode.ExtensionContext) {
           return
         }
 
-        await optimizeSvgDocument(document)
+        const profile = await pickSvgoProfile(document.uri)
+        if (profile === null) {
+          return
+        }
+
+        await optimizeSvgDocument(document, profile)
       })
     )
 
@@ -225,38 +267,164 @@ export function activate (context: vscode.ExtensionContext) {
     context.subscriptions.push(
       vscode.commands.registerCommand(
         'betterSvg.optimizeFromHover',
-        async (args?: { uri: string, start: number, length: number }) => {
-          if (!args || !args.uri) {
-            vscode.window.showErrorMessage('No SVG metadata provided')
-            return
-          }
-
+        async (args?: InlineSvgArgs) => {
           try {
-            const uri = vscode.Uri.parse(args.uri)
-            const document = await vscode.workspace.openTextDocument(uri)
-            await vscode.window.showTextDocument(document)
+            const target = await resolveInlineSvgTarget(args)
+            if (!target) {
+              vscode.window.showErrorMessage(args?.uri ? 'Invalid SVG bounds' : 'No SVG found at cursor position')
+              return
+            }
 
-            const start = args.start ?? 0
-            const length = args.length ?? 0
+            const { document, range } = target
+            await vscode.window.showTextDocument(document)
 
-            if (length <= 0) {
-              vscode.window.showErrorMessage('Invalid SVG bounds')
+            const profile = await pickSvgoProfile(document.uri)
+            if (profile === null) {
               return
             }
 
-            const range = new vscode.Range(
-              document.positionAt(start),
-              document.positionAt(start + length)
-            )
-
             const svgContent = document.getText(range)
-            await optimizeSvgInline(document, svgContent, range)
+            await optimizeSvgInline(document, svgContent, range, profile)
           } catch (error) {
             vscode.window.showErrorMessage(`No SVG found at cursor position (${error})`)
           }
         }
       )
     )
+
+    // Register code actions for inline SVGs
+    context.subscriptions.push(
+      vscode.languages.registerCodeActionsProvider(
+        SUPPORTED_LANGUAGES.map(lang => ({ language: lang })),
+        new SvgCodeActionProvider(),
+        { providedCodeActionKinds: SvgCodeActionProvider.providedCodeActionKinds }
+      ),
+      vscode.commands.registerCommand('betterSvg.extractInlineSvg', extractInlineSvg),
+      vscode.commands.registerCommand('betterSvg.extractInlineSvgToImport', extractInlineSvgToImport),
+      vscode.commands.registerCommand('betterSvg.inlineSvgFile', inlineSvgFile),
+      vscode.commands.registerCommand('betterSvg.convertInlineSvgToDataUri', convertInlineSvgToDataUri)
+    )
+
+    // Format SVG files, and inline SVGs through the command
+    context.subscriptions.push(
+      vscode.languages.registerDocumentFormattingEditProvider(
+        [{ language: 'svg' }, { pattern: '**/*.svg' }],
+        new SvgFormattingProvider()
+      ),
+      vscode.commands.registerCommand('betterSvg.format', formatSvgCommand)
+    )
+
+    // Convert SVG markup pasted from design tools and icon sites
+    const pasteEditProvider = registerSvgPasteEditProvider()
+    if (pasteEditProvider) {
+      context.subscriptions.push(pasteEditProvider)
+    }
+
+    // Lint SVG files and inline SVGs
+    const svgDiagnostics = new SvgDiagnostics()
+    const lintTimeouts = new Map<string, NodeJS.Timeout>()
+    vscode.workspace.textDocuments.forEach(document => svgDiagnostics.update(document))
+
+    context.subscriptions.push(
+      svgDiagnostics,
+      vscode.workspace.onDidOpenTextDocument(document => svgDiagnostics.update(document)),
+      vscode.workspace.onDidChangeTextDocument(e => {
+        const key = e.document.uri.toString()
+        clearTimeout(lintTimeouts.get(key))
+        lintTimeouts.set(key, setTimeout(() => {
+          lintTimeouts.delete(key)
+          svgDiagnostics.update(e.document)
+        }, 500))
+      }),
+      vscode.workspace.onDidCloseTextDocument(document => svgDiagnostics.delete(document.uri)),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('betterSvg.lint') || e.affectsConfiguration('betterSvg.dialect')) {
+          svgDiagnostics.refreshAll()
+        }
+      }),
+      vscode.languages.registerCodeActionsProvider(
+        [...SUPPORTED_LANGUAGES.map(lang => ({ language: lang })), { pattern: '**/*.svg' }],
+        new SvgLintCodeActionProvider(),
+        { providedCodeActionKinds: SvgLintCodeActionProvider.providedCodeActionKinds }
+      )
+    )
+
+    // The framework of each project is detected from these files
+    const projectFilesWatcher = vscode.workspace.createFileSystemWatcher('**/{package.json,tsconfig.json,jsconfig.json}')
+    const onProjectFilesChange = () => {
+      clearProjectDialectCache()
+      svgDiagnostics.refreshAll()
+    }
+    context.subscriptions.push(
+      projectFilesWatcher,
+      projectFilesWatcher.onDidChange(onProjectFilesChange),
+      projectFilesWatcher.onDidCreate(onProjectFilesChange),
+      projectFilesWatcher.onDidDelete(onProjectFilesChange)
+    )
+
+    // Register command to turn an SVG file into a framework component
+    context.subscriptions.push(
+      vscode.commands.registerCommand('betterSvg.generateComponent', generateComponent)
+    )
+
+    // Register command to optimize every inline SVG of the active file
+    context.subscriptions.push(
+      vscode.commands.registerCommand('betterSvg.optimizeAllInline', async () => {
+        const editor = vscode.window.activeTextEditor
+        if (!editor) {
+          vscode.window.showErrorMessage('No active editor')
+          return
+        }
+
+        await optimizeAllInlineSvgs(editor.document)
+      })
+    )
+
+    // Register command to show the per-plugin savings of an optimization
+    context.subscriptions.push(
+      vscode.commands.registerCommand('betterSvg.showOptimizationReport', async () => {
+        const editor = vscode.window.activeTextEditor
+        if (!editor) {
+          vscode.window.showErrorMessage('No active editor')
+          return
+        }
+
+        await showOptimizationReport(editor)
+      })
+    )
+
+    // Optimize SVGs on save (opt-in per glob)
+    context.subscriptions.push(
+      vscode.workspace.onWillSaveTextDocument(onWillSaveTextDocument)
+    )
+
+    // Register batch optimize command (Explorer context menu supports multi-select)
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        'betterSvg.optimizeFiles',
+        async (uri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+          const targets = selectedUris && selectedUris.length > 0
+            ? selectedUris
+            : (uri instanceof vscode.Uri ? [uri] : [])
+
+          try {
+            const files = await collectSvgFiles(targets)
+            if (!files) {
+              return
+            }
+
+            if (files.length === 0) {
+              vscode.window.showInformationMessage('No SVG files found')
+              return
+            }
+
+            await optimizeSvgFiles(files)
+          } catch (error) {
+            vscode.window.showErrorMessage(`Failed to optimize SVG files: ${error}`)
+          }
+        }
+      )
+    )
   } catch (error: any) {
     vscode.window.showErrorMessage(
       'Better SVG: Failed to activate extension!\n' +
@@ -267,115 +435,193 @@ export function activate (context: vscode.ExtensionContext) {
   }
 }
 
-function getSvgoPlugins (removeClasses: boolean): any[] {
-  const plugins: any[] = [
-    {
-      name: 'preset-default',
-      params: {
-        overrides: {
-          // Preserve important attributes by default
-          cleanupIds: false,
-          // Disable removing unknown attributes (like onClick, data-*) when preserving classes (inline mode)
-          removeUnknownsAndDefaults: removeClasses
-        }
-      }
-    },
-    'removeDoctype',
-    'removeComments',
-    {
-      name: 'removeAttrs',
-      params: {
-        // Remove attributes that are not useful in most cases
-        attrs: [
-          'xmlns:xlink',
-          'xml:space',
-          ...(removeClasses ? ['class'] : [])
-        ]
-      }
-    }
-  ]
-
-  return plugins
-}
-
-export async function optimizeSvgDocument (document: vscode.TextDocument) {
+export async function optimizeSvgDocument (document: vscode.TextDocument, profile?: string) {
   const svgContent = document.getText()
 
   try {
-    const plugins = getSvgoPlugins(true)
+    const { config } = await resolveSvgoConfig(document.uri, { profile })
 
-    const result = optimize(svgContent, {
-      multipass: true,
-      plugins
+    const optimized = await optimizeWithVisualGuard({ ...config, path: document.uri.fsPath }, guardedConfig => {
+      const result = optimize(svgContent, guardedConfig)
+      return { before: svgContent, after: result.data, output: result.data }
     })
 
-    const edit = new vscode.WorkspaceEdit()
+    if (optimized === undefined) {
+      return
+    }
+
     const fullRange = new vscode.Range(
       document.positionAt(0),
       document.positionAt(svgContent.length)
     )
-    edit.replace(document.uri, fullRange, result.data)
 
-    await vscode.workspace.applyEdit(edit)
+    await applyOptimizedSvg(document, fullRange, svgContent, optimized, false)
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to optimize SVG: ${error}`)
+  }
+}
 
-    // Calculate savings
-    const originalSize = Buffer.byteLength(svgContent, 'utf8')
-    const optimizedSize = Buffer.byteLength(result.data, 'utf8')
-    const savingPercent = ((originalSize - optimizedSize) / originalSize * 100).toFixed(2)
-    const originalSizeKB = (originalSize / 1024).toFixed(2)
-    const optimizedSizeKB = (optimizedSize / 1024).toFixed(2)
+export async function optimizeSvgInline (document: vscode.TextDocument, svgContent: string, range: vscode.Range, profile?: string) {
+  try {
+    const { config } = await resolveSvgoConfig(document.uri, { inline: true, profile })
+
+    const finalSvg = await optimizeWithVisualGuard({ ...config, path: document.uri.fsPath }, guardedConfig => {
+      const result = runInlineOptimization(
+        svgContent,
+        document.languageId,
+        guardedConfig,
+        getProjectDialect(document.uri),
+        getInlineLayout(document, range.start)
+      )
+      return { before: result.preparedSvg, after: result.optimizedSvg, output: result.finalSvg }
+    })
 
-    vscode.window.showInformationMessage(
-      `SVG optimized. Reduced from ${originalSizeKB} KB to ${optimizedSizeKB} KB (${savingPercent}% saved)`
-    )
+    if (finalSvg === undefined) {
+      return
+    }
+
+    await applyOptimizedSvg(document, range, svgContent, finalSvg, true)
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to optimize SVG: ${error}`)
   }
 }
 
-export async function optimizeSvgInline (document: vscode.TextDocument, svgContent: string, range: vscode.Range) {
+/**
+ * Optimizes every inline SVG of the document as a single undoable edit.
+ * Blocks that fail to convert (or to pass the visual guard) are left untouched and listed
+ */
+export async function optimizeAllInlineSvgs (document: vscode.TextDocument) {
+  const text = document.getText()
+  const blocks = svgLocator.getBlocks(document)
+
+  if (blocks.length === 0) {
+    vscode.window.showInformationMessage('No inline SVGs found in this file')
+    return
+  }
+
   try {
-    const plugins = getSvgoPlugins(false)
-    const options = {
-      useCamelCase: ['javascriptreact', 'typescriptreact'].includes(document.languageId)
+    const { config } = await resolveSvgoConfig(document.uri, { inline: true })
+    const dialect = getProjectDialect(document.uri)
+    const replacements: Array<{ block: SvgBlock, optimized: string }> = []
+    const skipped: string[] = []
+
+    for (const block of blocks) {
+      const start = document.positionAt(block.start)
+      const line = start.line + 1
+
+      try {
+        const result = runInlineOptimization(
+          block.content,
+          document.languageId,
+          { ...config, path: document.uri.fsPath },
+          dialect,
+          getInlineLayout(document, start)
+        )
+
+        if (!isValidSvg(result.finalSvg, document.languageId, dialect)) {
+          skipped.push(`line ${line}: the optimized SVG could not be converted back`)
+          continue
+        }
+
+        const { difference, passed, error } = await compareRenderings(result.preparedSvg, result.optimizedSvg)
+        if (!passed) {
+          skipped.push(`line ${line}: ${error ?? `renders ${difference.toFixed(2)}% different`}`)
+          continue
+        }
+
+        if (result.finalSvg.length < block.content.length) {
+          replacements.push({ block, optimized: result.finalSvg })
+        }
+      } catch (error) {
+        skipped.push(`line ${line}: ${error}`)
+      }
     }
 
-    // Prepare SVG for optimization (convert JSX to valid SVG if needed)
-    const { preparedSvg, wasJsx } = prepareForOptimization(svgContent, options)
+    const showSummary = () => {
+      const savings = calculateSavings(
+        replacements.map(({ block }) => block.content).join(''),
+        replacements.map(({ optimized }) => optimized).join('')
+      )
+      const message = `Optimized ${replacements.length} of ${blocks.length} inline SVGs. ` +
+        `Reduced from ${savings.originalSizeFormatted} to ${savings.optimizedSizeFormatted} (${savings.savingPercent}% saved)`
 
-    const result = optimize(preparedSvg, {
-      multipass: true,
-      plugins
-    })
+      if (skipped.length === 0) {
+        vscode.window.showInformationMessage(message)
+        return
+      }
+
+      const output = getOutputChannel()
+      output.appendLine(`Skipped inline SVGs in ${vscode.workspace.asRelativePath(document.uri)}:`)
+      skipped.forEach(reason => output.appendLine(`  ${reason}`))
+
+      vscode.window.showWarningMessage(`${message}. ${skipped.length} skipped.`, 'Show Skipped').then(choice => {
+        if (choice === 'Show Skipped') {
+          output.show(true)
+        }
+      })
+    }
+
+    if (replacements.length === 0) {
+      showSummary()
+      return
+    }
 
-    // Convert back to JSX if the original was JSX
-    const finalSvg = finalizeAfterOptimization(result.data, wasJsx, options)
+    if (shouldReviewOptimization(true)) {
+      // Review the whole file at once, with every block replaced
+      let optimizedText = text
+      for (const { block, optimized } of [...replacements].reverse()) {
+        optimizedText = optimizedText.slice(0, block.start) + optimized + optimizedText.slice(block.end)
+      }
+
+      const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(text.length))
+      await reviewProvider.review(document, fullRange, text, optimizedText, showSummary)
+      return
+    }
 
     const edit = new vscode.WorkspaceEdit()
-    edit.replace(document.uri, range, finalSvg)
+    for (const { block, optimized } of replacements) {
+      replaceMinimally(edit, document, new vscode.Range(document.positionAt(block.start), document.positionAt(block.end)), optimized)
+    }
 
     await vscode.workspace.applyEdit(edit)
 
-    // Calculate savings
-    const originalSize = Buffer.byteLength(svgContent, 'utf8')
-    const optimizedSize = Buffer.byteLength(finalSvg, 'utf8')
-    const savingPercent = ((originalSize - optimizedSize) / originalSize * 100).toFixed(2)
-    const originalSizeBytes = originalSize
-    const optimizedSizeBytes = optimizedSize
+    showSummary()
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to optimize SVGs: ${error}`)
+  }
+}
 
-    const formatBytes = (bytes: number): string => {
-      if (bytes < 1024) {
-        return `${bytes} bytes`
-      }
-      return `${(bytes / 1024).toFixed(2)} KB`
-    }
+/**
+ * Replaces the range with the optimized SVG, or opens it for review first when enabled
+ */
+async function applyOptimizedSvg (
+  document: vscode.TextDocument,
+  range: vscode.Range,
+  original: string,
+  optimized: string,
+  inline: boolean
+) {
+  const showSavings = () => {
+    const savings = calculateSavings(original, optimized)
 
     vscode.window.showInformationMessage(
-      `SVG optimized. Reduced from ${formatBytes(originalSizeBytes)} to ${formatBytes(optimizedSizeBytes)} (${savingPercent}% saved)`
+      `SVG optimized. Reduced from ${savings.originalSizeFormatted} to ${savings.optimizedSizeFormatted} (${savings.savingPercent}% saved)`
     )
-  } catch (error) {
-    vscode.window.showErrorMessage(`Failed to optimize SVG: ${error}`)
   }
+
+  if (shouldReviewOptimization(inline)) {
+    await reviewProvider.review(document, range, original, optimized, showSavings)
+    return
+  }
+
+  const edit = new vscode.WorkspaceEdit()
+  replaceMinimally(edit, document, range, optimized)
+
+  await vscode.workspace.applyEdit(edit)
+
+  showSavings()
 }
 
-export function deactivate () {}
+export function deactivate () {
+  disposeOutputChannel()
+}
@@ -6,6 +6,7 @@ import {
   finalizeAfterOptimization,
   isJsxSvg
 } from './svgTransform'
+import { getDialectOptions } from './dialects'
 
 describe('Astro Support', () => {
     it('should handle Astro expression syntax (similar to JSX)', () => {
@@ -183,3 +184,108 @@ describe('Mixed Framework Edge Cases', () => {
         assert.strictEqual(final, input)
     })
 })
+
+describe('Solid and Qwik Support', () => {
+    it('should keep class and SVG attribute names in Solid', () => {
+        const options = getDialectOptions('solid')
+        const input = '<svg class="icon" stroke-width={width()} prop:title="x"><path fill-rule="evenodd" /></svg>'
+        const { preparedSvg, wasJsx } = prepareForOptimization(input, options)
+
+        assert.ok(preparedSvg.includes('data-better-svg-temp-prop__COLON__title="x"'), preparedSvg)
+        assert.strictEqual(finalizeAfterOptimization(preparedSvg, wasJsx, options), input)
+    })
+
+    it('should read camelCase names but write the SVG ones in Solid', () => {
+        const options = getDialectOptions('solid')
+        const { preparedSvg, wasJsx } = prepareForOptimization('<svg className="icon" strokeWidth={2}><path /></svg>', options)
+        assert.strictEqual(finalizeAfterOptimization(preparedSvg, wasJsx, options), '<svg class="icon" stroke-width={2}><path /></svg>')
+    })
+
+    it('should protect Qwik event handlers', () => {
+        const options = getDialectOptions('qwik')
+        const input = '<svg class="icon" onClick$={() => open()} preventdefault:click><path /></svg>'
+        const { preparedSvg, wasJsx } = prepareForOptimization(input, options)
+
+        assert.ok(preparedSvg.includes('data-better-svg-temp-onClick__DOLLAR__='), preparedSvg)
+        assert.ok(preparedSvg.includes('data-better-svg-temp-preventdefault__COLON__click="__BOOLEAN__"'), preparedSvg)
+        assert.strictEqual(finalizeAfterOptimization(preparedSvg, wasJsx, options), input)
+    })
+})
+
+describe('Angular Support', () => {
+    const options = getDialectOptions('angular')
+
+    it('should protect bindings, events, structural directives and references', () => {
+        const input = '<svg [attr.width]="size" (click)="select()" #icon><g *ngIf="visible"><path [attr.fill]="color" /></g></svg>'
+        const { preparedSvg, wasJsx } = prepareForOptimization(input, options)
+
+        assert.ok(wasJsx, 'Should detect Angular bindings')
+        assert.ok(preparedSvg.includes('data-better-svg-temp-__LBRACKET__attr__DOT__width__RBRACKET__="size"'), preparedSvg)
+        assert.ok(preparedSvg.includes('data-better-svg-temp-__LPAREN__click__RPAREN__="select()"'), preparedSvg)
+        assert.ok(preparedSvg.includes('data-better-svg-temp-__STAR__ngIf="visible"'), preparedSvg)
+        assert.ok(preparedSvg.includes('data-better-svg-temp-__HASH__icon="__BOOLEAN__"'), preparedSvg)
+        assert.strictEqual(finalizeAfterOptimization(preparedSvg, wasJsx, options), input)
+    })
+
+    it('should keep the markup of control flow blocks visible to SVGO', () => {
+        const input = '<svg>@if (user.avatar; as avatar) {<image [attr.href]="avatar" />} @else {<circle r="4" />}@for (p of points(); track $index) {<path [attr.d]="p" />}</svg>'
+        const { preparedSvg, wasJsx } = prepareForOptimization(input, options)
+
+        assert.ok(preparedSvg.includes('<circle r="4" />'), preparedSvg)
+        assert.ok(!preparedSvg.includes('@'), preparedSvg)
+        assert.strictEqual(finalizeAfterOptimization(preparedSvg, wasJsx, options), input)
+    })
+
+    it('should keep interpolations', () => {
+        const input = '<svg><text x="0">{{ label }}</text></svg>'
+        const { preparedSvg, wasJsx } = prepareForOptimization(input, options)
+        assert.strictEqual(finalizeAfterOptimization(preparedSvg, wasJsx, options), input)
+    })
+})
+
+describe('Server Template Support', () => {
+    const options = getDialectOptions('template')
+    const roundTrip = (input: string) => {
+        const { preparedSvg, wasJsx } = prepareForOptimization(input, options)
+        return { preparedSvg, wasJsx, output: finalizeAfterOptimization(preparedSvg, wasJsx, options) }
+    }
+
+    const fixtures: Record<string, string> = {
+        Blade: '<svg class="icon {{ $class }}" {{ $attributes }}>@if ($active)<path fill="{!! $color !!}" d="M0 0h24" />@endif{{-- icon --}}</svg>',
+        Twig: '<svg class="{{ active ? "on" : "off" }}" {% if label %}aria-label="{{ label }}"{% endif %}>{% for p in paths %}<path d="{{ p }}" />{% endfor %}{# paths #}</svg>',
+        Jinja: '<svg width="{{ size|default(24) }}">{%- if title %}<title>{{ title | e }}</title>{% endif -%}<path d="M0 0" /></svg>',
+        Handlebars: '<svg class="{{classes}}">{{#if active}}<path fill="{{{color}}}" />{{else}}<circle r="4" />{{/if}}</svg>',
+        Go: '<svg fill="{{ .Color }}">{{- if .Title }}<title>{{ .Title }}</title>{{ end -}}{{/* icon */}}<path d="M0 0" /></svg>',
+        ERB: '<svg fill="<%= color %>" <%= tag.attributes(data: { icon: true }) %>><% if title %><title><%= title %></title><% end %></svg>',
+        PHP: '<svg fill="<?= $color ?>"><?php if ($title): ?><title><?php echo $title ?></title><?php endif ?></svg>'
+    }
+
+    for (const [language, input] of Object.entries(fixtures)) {
+        it(`should round trip ${language} templates`, () => {
+            const { preparedSvg, wasJsx, output } = roundTrip(input)
+
+            assert.ok(wasJsx, `${language} template tags should be detected`)
+            assert.ok(!/\{\{|\{%|\{#|\{!!|<%|<\?|@if/.test(preparedSvg), `Template tags left for SVGO: ${preparedSvg}`)
+            assert.strictEqual(output, input)
+        })
+    }
+
+    it('should keep the markup between template tags visible to SVGO', () => {
+        const { preparedSvg } = roundTrip('<svg>{% if active %}<path fill="#ff0000" />{% endif %}</svg>')
+        assert.ok(preparedSvg.includes('<path fill="#ff0000" />'), preparedSvg)
+    })
+
+    it('should keep attributes wrapped by template tags together', () => {
+        const { preparedSvg } = roundTrip('<svg id="a"{% if x %} class="on" fill="red"{% endif %} viewBox="0 0 1 1"></svg>')
+        assert.ok(preparedSvg.startsWith('<svg data-better-svg-temp-data-jsx-0="'), preparedSvg)
+        assert.ok(preparedSvg.endsWith(' viewBox="0 0 1 1"></svg>'), preparedSvg)
+        assert.ok(!preparedSvg.includes('class='), preparedSvg)
+    })
+
+    it('should leave Alpine attributes in Blade files alone', () => {
+        const input = '<svg @click="open = !open" x-bind:class="{ \'rotate-180\': open }"><path /></svg>'
+        const { preparedSvg, output } = roundTrip(input)
+        assert.ok(preparedSvg.includes('data-better-svg-temp-__AT__click='), preparedSvg)
+        assert.strictEqual(output, input)
+    })
+})
@@ -0,0 +1,188 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import * as zlib from 'zlib'
+import { optimize } from 'svgo/browser'
+import type { Config } from 'svgo/browser'
+import { resolveSvgoConfig } from './svgoConfig'
+import { expandPlugins } from './svgOptimizer'
+import { getDocumentTransformOptions, svgLocator } from './projectDialect'
+import { prepareForOptimization } from './svgTransform'
+import { calculateSavings, formatBytes } from './utils'
+import { getOutputChannel } from './outputChannel'
+
+// Same limit SVGO uses for multipass
+const MAX_PASSES = 10
+
+interface SizeStats {
+  raw: number
+  gzip: number
+  brotli: number
+}
+
+export interface PluginSavings {
+  name: string
+  bytesRemoved: number
+}
+
+export interface OptimizationReport {
+  /**
+   * Output of the regular (not step by step) SVGO run
+   */
+  optimizedSvg: string
+  original: SizeStats
+  optimized: SizeStats
+  /**
+   * Bytes removed just by parsing and serializing the SVG, before any plugin runs
+   */
+  serializationSavings: number
+  plugins: PluginSavings[]
+  passes: number
+}
+
+function measure (content: string): SizeStats {
+  const buffer = Buffer.from(content, 'utf8')
+  return {
+    raw: buffer.length,
+    gzip: zlib.gzipSync(buffer, { level: 9 }).length,
+    brotli: zlib.brotliCompressSync(buffer).length
+  }
+}
+
+/**
+ * Runs the SVGO pipeline one plugin at a time, the same way multipass does,
+ * and records how many bytes every plugin removed
+ */
+export function buildOptimizationReport (svgContent: string, config: Config): OptimizationReport {
+  const plugins = expandPlugins(config)
+  const savings = new Map<string, number>()
+  const stepConfig = { ...config, multipass: false }
+
+  // Parse and serialize once without plugins so formatting changes are not attributed to the first plugin
+  let current = optimize(svgContent, { ...stepConfig, plugins: [] }).data
+  const serializationSavings = Buffer.byteLength(svgContent, 'utf8') - Buffer.byteLength(current, 'utf8')
+
+  const maxPasses = config.multipass ? MAX_PASSES : 1
+  let previousSize = Number.POSITIVE_INFINITY
+  let passes = 0
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    passes++
+    let output = current
+
+    for (const plugin of plugins) {
+      const name = typeof plugin === 'string' ? plugin : plugin.name
+      const next = optimize(output, { ...stepConfig, plugins: [plugin] }).data
+      const removed = Buffer.byteLength(output, 'utf8') - Buffer.byteLength(next, 'utf8')
+      savings.set(name, (savings.get(name) ?? 0) + removed)
+      output = next
+    }
+
+    if (!(output.length < previousSize)) {
+      break
+    }
+
+    current = output
+    previousSize = output.length
+  }
+
+  const optimizedSvg = optimize(svgContent, config).data
+
+  return {
+    optimizedSvg,
+    original: measure(svgContent),
+    optimized: measure(optimizedSvg),
+    serializationSavings,
+    plugins: [...savings.entries()].map(([name, bytesRemoved]) => ({ name, bytesRemoved })),
+    passes
+  }
+}
+
+function formatPercent (original: number, optimized: number): string {
+  return original > 0 ? `${((original - optimized) / original * 100).toFixed(2)}%` : '0.00%'
+}
+
+function writeReport (title: string, source: string, report: OptimizationReport, rawSavings: ReturnType<typeof calculateSavings>) {
+  const output = getOutputChannel()
+  const row = (label: string, values: string[]) => label.padEnd(12) + values.map(value => value.padStart(14)).join('')
+
+  output.appendLine(`Optimization report: ${title} (${source})`)
+  output.appendLine(row('', ['Raw', 'Gzip', 'Brotli']))
+  output.appendLine(row('Original', [rawSavings.originalSizeFormatted, formatBytes(report.original.gzip), formatBytes(report.original.brotli)]))
+  output.appendLine(row('Optimized', [rawSavings.optimizedSizeFormatted, formatBytes(report.optimized.gzip), formatBytes(report.optimized.brotli)]))
+  output.appendLine(row('Saved', [
+    `${rawSavings.savingPercent}%`,
+    formatPercent(report.original.gzip, report.optimized.gzip),
+    formatPercent(report.original.brotli, report.optimized.brotli)
+  ]))
+  output.appendLine('')
+  output.appendLine(`Multipass iterations: ${report.passes}`)
+  output.appendLine('Savings per plugin:')
+
+  if (report.serializationSavings !== 0) {
+    output.appendLine(`  ${'(parse and serialize)'.padEnd(34)}${formatBytes(report.serializationSavings)}`)
+  }
+
+  const effective = report.plugins
+    .filter(plugin => plugin.bytesRemoved !== 0)
+    .sort((a, b) => b.bytesRemoved - a.bytesRemoved)
+
+  for (const plugin of effective) {
+    output.appendLine(`  ${plugin.name.padEnd(34)}${formatBytes(plugin.bytesRemoved)}`)
+  }
+
+  const unused = report.plugins.length - effective.length
+  if (unused > 0) {
+    output.appendLine(`  ${unused} plugins had no effect`)
+  }
+
+  output.appendLine('')
+  output.show(true)
+}
+
+/**
+ * Writes the optimization report of the active SVG file, or of the inline SVG under the cursor
+ */
+export async function showOptimizationReport (editor: vscode.TextEditor) {
+  const document = editor.document
+  const isSvgFile = document.fileName.toLowerCase().endsWith('.svg')
+  let svgContent = document.getText()
+
+  if (!isSvgFile) {
+    const offset = document.offsetAt(editor.selection.active)
+    const block = svgLocator.findBlockAt(document, offset)
+    if (!block) {
+      vscode.window.showErrorMessage('No SVG found at cursor position')
+      return
+    }
+    svgContent = prepareForOptimization(block.content, getDocumentTransformOptions(document)).preparedSvg
+  }
+
+  try {
+    const { config, source } = await resolveSvgoConfig(document.uri, { inline: !isSvgFile })
+    const report = buildOptimizationReport(svgContent, { ...config, path: document.uri.fsPath })
+    const rawSavings = calculateSavings(svgContent, report.optimizedSvg)
+
+    const title = isSvgFile
+      ? vscode.workspace.asRelativePath(document.uri)
+      : `${vscode.workspace.asRelativePath(document.uri)}:${editor.selection.active.line + 1}`
+
+    writeReport(title, source, report, rawSavings)
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to build optimization report: ${error}`)
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { calculateSavings } from './utils'
+import { replaceMinimally } from './textEdits'
+
+export const REVIEW_SCHEME = 'better-svg-review'
+
+interface PendingReview {
+  documentUri: vscode.Uri
+  documentVersion: number
+  range: vscode.Range
+  original: string
+  optimized: string
+  onApply?: () => void
+}
+
+/**
+ * Serves the original and optimized SVG of a pending review as virtual documents,
+ * so they can be compared in the built-in diff editor before the edit is applied
+ */
+export class OptimizationReviewProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private reviews: Map<string, PendingReview> = new Map()
+  private nextId = 0
+
+  // Reviews whose diff editor was closed without applying or discarding them are dropped
+  private readonly tabListener = vscode.window.tabGroups.onDidChangeTabs(event => {
+    for (const tab of event.closed) {
+      const id = getReviewId(tab)
+      if (id !== undefined && !this.isShown(id)) {
+        this.reviews.delete(id)
+      }
+    }
+  })
+
+  public provideTextDocumentContent (uri: vscode.Uri): string {
+    const [, id, side] = uri.path.split('/')
+    const review = this.reviews.get(id)
+    if (!review) {
+      return ''
+    }
+    return side === 'optimized' ? review.optimized : review.original
+  }
+
+  /**
+   * Opens the diff editor for a proposed optimization. The edit is applied once the user accepts it,
+   * either from the notification or from the diff editor title actions
+   */
+  public async review (
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    original: string,
+    optimized: string,
+    onApply?: () => void
+  ): Promise<void> {
+    const id = String(this.nextId++)
+    this.reviews.set(id, {
+      documentUri: document.uri,
+      documentVersion: document.version,
+      range,
+      original,
+      optimized,
+      onApply
+    })
+
+    // Keep the host file name so inline snippets get the right syntax highlighting
+    const fileName = path.basename(document.uri.path) || 'untitled.svg'
+    const originalUri = vscode.Uri.from({ scheme: REVIEW_SCHEME, path: `/${id}/original/${fileName}` })
+    const optimizedUri = vscode.Uri.from({ scheme: REVIEW_SCHEME, path: `/${id}/optimized/${fileName}` })
+
+    const savings = calculateSavings(original, optimized)
+    const title = `${fileName}: Optimization Review (${savings.originalSizeFormatted} → ${savings.optimizedSizeFormatted}, ${savings.savingPercent}% saved)`
+
+    await vscode.commands.executeCommand('vscode.diff', originalUri, optimizedUri, title, { preview: true })
+
+    vscode.window.showInformationMessage(
+      `Review the optimization of ${fileName} (${savings.savingPercent}% saved)`,
+      'Apply',
+      'Discard'
+    ).then(choice => {
+      // The review may have been settled from the editor title actions in the meantime
+      if (!this.reviews.has(id)) {
+        return
+      }
+
+      if (choice === 'Apply') {
+        return this.apply(optimizedUri)
+      } else if (choice === 'Discard') {
+        return this.discard(optimizedUri)
+      }
+    })
+  }
+
+  /**
+   * Applies the optimization shown in the given review document
+   */
+  public async apply (uri: vscode.Uri): Promise<void> {
+    const [, id] = uri.path.split('/')
+    const review = this.reviews.get(id)
+    if (!review) {
+      return
+    }
+
+    const document = await vscode.workspace.openTextDocument(review.documentUri)
+    if (document.version !== review.documentVersion) {
+      vscode.window.showErrorMessage('The document changed since the optimization was proposed. Optimize it again to review the new content.')
+      await this.discard(uri)
+      return
+    }
+
+    const edit = new vscode.WorkspaceEdit()
+    replaceMinimally(edit, document, review.range, review.optimized)
+    await vscode.workspace.applyEdit(edit)
+
+    await this.close(id)
+    review.onApply?.()
+  }
+
+  /**
+   * Drops the review shown in the given review document without touching the original file
+   */
+  public async discard (uri: vscode.Uri): Promise<void> {
+    const [, id] = uri.path.split('/')
+    await this.close(id)
+  }
+
+  private async close (id: string): Promise<void> {
+    this.reviews.delete(id)
+
+    const tabs = this.getTabs(id)
+    if (tabs.length > 0) {
+      await vscode.window.tabGroups.close(tabs)
+    }
+  }
+
+  private getTabs (id: string): vscode.Tab[] {
+    return vscode.window.tabGroups.all.flatMap(group => group.tabs).filter(tab => getReviewId(tab) === id)
+  }
+
+  private isShown (id: string): boolean {
+    return this.getTabs(id).length > 0
+  }
+
+  public dispose () {
+    this.tabListener.dispose()
+    this.reviews.clear()
+  }
+}
+
+/**
+ * Id of the review shown in a diff editor tab, undefined for other tabs
+ */
+function getReviewId (tab: vscode.Tab): string | undefined {
+  if (!(tab.input instanceof vscode.TabInputTextDiff) || tab.input.modified.scheme !== REVIEW_SCHEME) {
+    return undefined
+  }
+  return tab.input.modified.path.split('/')[1]
+}
+
+/**
+ * Whether optimizations should be reviewed in a diff editor before being applied
+ */
+export function shouldReviewOptimization (inline: boolean): boolean {
+  const config = vscode.workspace.getConfiguration('betterSvg')
+  const mode = config.get<'off' | 'inline' | 'always'>('reviewOptimizations', 'off')
+  return mode === 'always' || (mode === 'inline' && inline)
+}
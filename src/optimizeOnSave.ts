@@ -0,0 +1,166 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import { optimize } from 'svgo/browser'
+import { SUPPORTED_LANGUAGES } from './consts'
+import { resolveSvgoConfig, uriMatchesGlob } from './svgoConfig'
+import { isValidSvg, runInlineOptimization } from './svgOptimizer'
+import { compareRenderings } from './visualGuard'
+import { calculateSavings } from './utils'
+import { getOutputChannel } from './outputChannel'
+import { getProjectDialect, svgLocator } from './projectDialect'
+import { getMinimalTextEdits } from './textEdits'
+import { getInlineLayout } from './svgFormatting'
+
+/**
+ * Files containing this marker (usually in a comment) are never optimized on save
+ */
+export const OPTIMIZE_ON_SAVE_OPT_OUT = 'better-svg-disable-optimize-on-save'
+
+// VS Code drops the edits of save participants that take longer than about 1.5 seconds
+const SAVE_TIME_BUDGET_MS = 1000
+
+interface OptimizeOnSaveSettings {
+  enabled: boolean
+  include: string[]
+  exclude: string[]
+  inline: boolean
+  minSavingsBytes: number
+}
+
+function getSettings (): OptimizeOnSaveSettings {
+  const config = vscode.workspace.getConfiguration('betterSvg.optimizeOnSave')
+  return {
+    enabled: config.get<boolean>('enabled', false),
+    include: config.get<string[]>('include', ['**/*.svg']),
+    exclude: config.get<string[]>('exclude', []),
+    inline: config.get<boolean>('inline', false),
+    minSavingsBytes: config.get<number>('minSavingsBytes', 16)
+  }
+}
+
+function isSvgDocument (document: vscode.TextDocument): boolean {
+  return document.languageId === 'svg' || document.fileName.toLowerCase().endsWith('.svg')
+}
+
+function shouldOptimizeOnSave (document: vscode.TextDocument, settings: OptimizeOnSaveSettings): boolean {
+  if (!settings.enabled || document.uri.scheme !== 'file') {
+    return false
+  }
+
+  if (!isSvgDocument(document) && !(settings.inline && SUPPORTED_LANGUAGES.includes(document.languageId))) {
+    return false
+  }
+
+  return settings.include.some(pattern => uriMatchesGlob(document.uri, pattern)) &&
+    !settings.exclude.some(pattern => uriMatchesGlob(document.uri, pattern)) &&
+    !document.getText().includes(OPTIMIZE_ON_SAVE_OPT_OUT)
+}
+
+/**
+ * Computes the edits that optimize the document (or its inline SVGs) before it is written to disk.
+ * Results that do not parse or do not reach the savings threshold are left untouched, and so are
+ * the SVGs left when the save time budget runs out, as their visual check would not finish in time
+ */
+export async function getOptimizeOnSaveEdits (document: vscode.TextDocument): Promise<vscode.TextEdit[]> {
+  const settings = getSettings()
+  if (!shouldOptimizeOnSave(document, settings)) {
+    return []
+  }
+
+  const text = document.getText()
+  const edits: vscode.TextEdit[] = []
+  const deadline = Date.now() + SAVE_TIME_BUDGET_MS
+  let outOfTime = false
+  const isOutOfTime = () => {
+    if (!outOfTime && Date.now() > deadline) {
+      outOfTime = true
+      getOutputChannel().appendLine(`Optimize on save skipped SVGs in ${vscode.workspace.asRelativePath(document.uri)}: the save time budget ran out`)
+    }
+    return outOfTime
+  }
+
+  try {
+    if (isSvgDocument(document)) {
+      const { config } = await resolveSvgoConfig(document.uri)
+      const optimized = optimize(text, { ...config, path: document.uri.fsPath }).data
+      const { originalSize, optimizedSize } = calculateSavings(text, optimized)
+
+      if (
+        originalSize - optimizedSize >= settings.minSavingsBytes &&
+        isValidSvg(optimized) &&
+        !isOutOfTime() &&
+        (await compareRenderings(text, optimized)).passed
+      ) {
+        edits.push(...getMinimalTextEdits(document, new vscode.Range(document.positionAt(0), document.positionAt(text.length)), optimized))
+      }
+
+      return edits
+    }
+
+    const { config } = await resolveSvgoConfig(document.uri, { inline: true })
+    const dialect = getProjectDialect(document.uri)
+
+    for (const block of svgLocator.getBlocks(document)) {
+      if (isOutOfTime()) {
+        break
+      }
+
+      try {
+        const result = runInlineOptimization(
+          block.content,
+          document.languageId,
+          { ...config, path: document.uri.fsPath },
+          dialect,
+          getInlineLayout(document, document.positionAt(block.start))
+        )
+        const { originalSize, optimizedSize } = calculateSavings(block.content, result.finalSvg)
+
+        if (
+          originalSize - optimizedSize >= settings.minSavingsBytes &&
+          isValidSvg(result.finalSvg, document.languageId, dialect) &&
+          !isOutOfTime() &&
+          (await compareRenderings(result.preparedSvg, result.optimizedSvg)).passed
+        ) {
+          edits.push(...getMinimalTextEdits(
+            document,
+            new vscode.Range(document.positionAt(block.start), document.positionAt(block.end)),
+            result.finalSvg
+          ))
+        }
+      } catch (error) {
+        // A block that cannot be optimized must not prevent the rest from being saved
+        getOutputChannel().appendLine(`Optimize on save skipped an SVG in ${vscode.workspace.asRelativePath(document.uri)}: ${error}`)
+      }
+    }
+  } catch (error) {
+    getOutputChannel().appendLine(`Optimize on save failed for ${vscode.workspace.asRelativePath(document.uri)}: ${error}`)
+  }
+
+  return edits
+}
+
+/**
+ * Optimizes SVGs on explicit saves. Auto saves are ignored so the document is not rewritten while typing
+ */
+export function onWillSaveTextDocument (event: vscode.TextDocumentWillSaveEvent) {
+  if (event.reason !== vscode.TextDocumentSaveReason.Manual) {
+    return
+  }
+
+  event.waitUntil(getOptimizeOnSaveEdits(event.document))
+}
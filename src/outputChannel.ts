@@ -0,0 +1,34 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+
+let outputChannel: vscode.OutputChannel | undefined
+
+/**
+ * Shared "Better SVG" output channel, created on first use
+ */
+export function getOutputChannel (): vscode.OutputChannel {
+  if (!outputChannel) {
+    outputChannel = vscode.window.createOutputChannel('Better SVG')
+  }
+  return outputChannel
+}
+
+export function disposeOutputChannel () {
+  outputChannel?.dispose()
+  outputChannel = undefined
+}
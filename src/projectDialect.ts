@@ -0,0 +1,104 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import * as fs from 'fs'
+import * as path from 'path'
+import { detectProjectDialect, resolveDialect, SVG_DIALECTS, SvgDialect } from './dialects'
+import { getTransformOptions } from './svgOptimizer'
+import { SvgLocator } from './svgLocator'
+import type { OptimizationOptions } from './svgTransform'
+
+const PROJECT_FILES = ['package.json', 'tsconfig.json', 'jsconfig.json']
+
+// Detected dialect of each folder, hovers and gutter icons ask for it on every render
+const dialectCache = new Map<string, SvgDialect | undefined>()
+
+function readFile (filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf8')
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Detects the framework of the project a file belongs to, from the nearest folder with a
+ * package.json or tsconfig.json, without leaving its workspace folder
+ */
+function findProjectDialect (uri: vscode.Uri): SvgDialect | undefined {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri)
+  if (!workspaceFolder || uri.scheme !== 'file') {
+    return undefined
+  }
+
+  const root = workspaceFolder.uri.fsPath
+  let dir = path.dirname(uri.fsPath)
+
+  if (dialectCache.has(dir)) {
+    return dialectCache.get(dir)
+  }
+
+  while (true) {
+    if (PROJECT_FILES.some(fileName => fs.existsSync(path.join(dir, fileName)))) {
+      const dialect = detectProjectDialect(
+        readFile(path.join(dir, 'package.json')),
+        readFile(path.join(dir, 'tsconfig.json')) ?? readFile(path.join(dir, 'jsconfig.json'))
+      )
+      dialectCache.set(path.dirname(uri.fsPath), dialect)
+      return dialect
+    }
+
+    const parent = path.dirname(dir)
+    if (dir === root || parent === dir || !parent.startsWith(root)) {
+      dialectCache.set(path.dirname(uri.fsPath), undefined)
+      return undefined
+    }
+    dir = parent
+  }
+}
+
+/**
+ * Framework of the project of a document: `betterSvg.dialect` when set, detected otherwise
+ */
+export function getProjectDialect (uri: vscode.Uri): SvgDialect | undefined {
+  const configured = vscode.workspace.getConfiguration('betterSvg').get<string>('dialect', 'auto')
+  if ((SVG_DIALECTS as readonly string[]).includes(configured)) {
+    return configured as SvgDialect
+  }
+
+  return findProjectDialect(uri)
+}
+
+/**
+ * Transform options for the inline SVGs of a document
+ */
+export function getDocumentTransformOptions (document: vscode.TextDocument): OptimizationOptions {
+  return getTransformOptions(document.languageId, getProjectDialect(document.uri))
+}
+
+/**
+ * Inline SVGs of the open documents, shared by the hover, gutter icons, diagnostics and commands
+ */
+export const svgLocator = new SvgLocator<vscode.TextDocument>(document => resolveDialect(document.languageId, getProjectDialect(document.uri)))
+
+/**
+ * Forgets the detected dialects, for when a package.json or tsconfig.json changes
+ */
+export function clearProjectDialectCache () {
+  dialectCache.clear()
+  svgLocator.clear()
+}
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { cssToStyleObject, styleObjectToCss } from './styleObject'
+
+describe('styleObjectToCss', () => {
+    it('should convert keys to kebab-case and add px to lengths', () => {
+        assert.deepStrictEqual(styleObjectToCss('{ color: "red", marginTop: 10, strokeWidth: 2, zIndex: 1 }'), {
+            css: 'color:red;margin-top:10px;stroke-width:2;z-index:1',
+            quote: '"'
+        })
+    })
+
+    it('should handle vendor prefixes, custom properties and trailing commas', () => {
+        assert.deepStrictEqual(styleObjectToCss('{ WebkitMask: \'none\', msTransform: `scale(2)`, \'--size\': 0, }'), {
+            css: '-webkit-mask:none;-ms-transform:scale(2);--size:0',
+            quote: '\''
+        })
+    })
+
+    it('should bail out on anything that is not static', () => {
+        const dynamic = [
+            '{ color }',
+            '{ color: color }',
+            '{ ...base, color: "red" }',
+            '{ [key]: "red" }',
+            '{ width: size + 1 }',
+            // Split so the placeholder is not taken for a misplaced template expression
+            '{ width: `$' + '{size}px` }',
+            '{ /* comment */ color: "red" }',
+            '{ content: \'"a"\' }',
+            'styles.icon',
+            '{}'
+        ]
+        for (const expression of dynamic) {
+            assert.strictEqual(styleObjectToCss(expression), undefined, expression)
+        }
+    })
+})
+
+describe('cssToStyleObject', () => {
+    it('should convert declarations back to an object literal', () => {
+        assert.strictEqual(
+            cssToStyleObject('color:red;margin-top:10px;stroke-width:2;line-height:1.5em', '"'),
+            '{ color: "red", marginTop: 10, strokeWidth: 2, lineHeight: "1.5em" }'
+        )
+    })
+
+    it('should restore vendor prefixes and custom properties', () => {
+        assert.strictEqual(
+            cssToStyleObject('-webkit-mask:none;-ms-transform:scale(2);--size:0'),
+            '{ WebkitMask: \'none\', msTransform: \'scale(2)\', \'--size\': 0 }'
+        )
+    })
+
+    it('should not split on semicolons inside url() or strings', () => {
+        assert.strictEqual(
+            cssToStyleObject('background:url("data:image/png;base64,AA");font-family:\'A;B\''),
+            '{ background: \'url("data:image/png;base64,AA")\', fontFamily: "\'A;B\'" }'
+        )
+    })
+
+    it('should round trip static objects', () => {
+        const expression = '{ color: \'red\', marginTop: 10, opacity: 0.5 }'
+        const style = styleObjectToCss(expression)!
+        assert.strictEqual(cssToStyleObject(style.css, style.quote), expression)
+    })
+})
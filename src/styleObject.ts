@@ -0,0 +1,243 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Properties React writes without `px` when given a number (from react-dom's `isUnitlessNumber`)
+ */
+const UNITLESS_PROPERTIES = new Set([
+  'animationIterationCount',
+  'aspectRatio',
+  'borderImageOutset',
+  'borderImageSlice',
+  'borderImageWidth',
+  'boxFlex',
+  'boxFlexGroup',
+  'boxOrdinalGroup',
+  'columnCount',
+  'columns',
+  'flex',
+  'flexGrow',
+  'flexPositive',
+  'flexShrink',
+  'flexNegative',
+  'flexOrder',
+  'gridArea',
+  'gridRow',
+  'gridRowEnd',
+  'gridRowSpan',
+  'gridRowStart',
+  'gridColumn',
+  'gridColumnEnd',
+  'gridColumnSpan',
+  'gridColumnStart',
+  'fontWeight',
+  'lineClamp',
+  'lineHeight',
+  'opacity',
+  'order',
+  'orphans',
+  'scale',
+  'tabSize',
+  'widows',
+  'zIndex',
+  'zoom',
+  'fillOpacity',
+  'floodOpacity',
+  'stopOpacity',
+  'strokeDasharray',
+  'strokeDashoffset',
+  'strokeMiterlimit',
+  'strokeOpacity',
+  'strokeWidth'
+])
+
+export interface CssStyle {
+  css: string
+  /**
+   * Quote used by the string values of the object, to write them back the same way
+   */
+  quote: '"' | '\''
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*/
+const NUMBER = /^-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i
+
+function camelToKebab (property: string): string {
+  if (property.startsWith('--')) {
+    return property
+  }
+  // msTransform -> -ms-transform, WebkitMask -> -webkit-mask
+  const kebab = property.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`)
+  return property.startsWith('ms') && /^ms[A-Z]/.test(property) ? `-${kebab}` : kebab
+}
+
+function kebabToCamel (property: string): string {
+  if (property.startsWith('--')) {
+    return property
+  }
+  const camel = property.replace(/-([a-z])/g, (_match, char: string) => char.toUpperCase())
+  return property.startsWith('-ms-') ? camel.replace(/^Ms/, 'ms') : camel
+}
+
+/**
+ * Converts a literal style object (`{ color: 'red', marginTop: 10 }`) to a CSS declaration list.
+ * Returns undefined when the object is not fully static: variables, spreads, computed keys, calls...
+ */
+export function styleObjectToCss (expression: string): CssStyle | undefined {
+  const src = expression.trim()
+  if (!src.startsWith('{') || !src.endsWith('}')) {
+    return undefined
+  }
+
+  const declarations: string[] = []
+  let quote: CssStyle['quote'] | undefined
+  let i = 1
+  const end = src.length - 1
+
+  const skipSpaces = () => {
+    while (i < end && /\s/.test(src[i])) {
+      i++
+    }
+  }
+
+  const readString = (): string | undefined => {
+    const delimiter = src[i]
+    const close = src.indexOf(delimiter, i + 1)
+    if (close === -1 || close > end) {
+      return undefined
+    }
+    const value = src.slice(i + 1, close)
+    if (value.includes('\\') || value.includes('\n') || (delimiter === '`' && value.includes('${'))) {
+      return undefined
+    }
+    if (delimiter !== '`') {
+      quote ??= delimiter as CssStyle['quote']
+    }
+    i = close + 1
+    return value
+  }
+
+  while (true) {
+    skipSpaces()
+    if (i >= end) {
+      break
+    }
+
+    let key: string | undefined
+    if (src[i] === '"' || src[i] === '\'') {
+      key = readString()
+    } else {
+      key = src.slice(i, end).match(IDENTIFIER)?.[0]
+      i += key?.length ?? 0
+    }
+    if (!key) {
+      return undefined
+    }
+
+    skipSpaces()
+    if (src[i] !== ':') {
+      return undefined
+    }
+    i++
+    skipSpaces()
+
+    let value: string | undefined
+    if (src[i] === '"' || src[i] === '\'' || src[i] === '`') {
+      value = readString()
+    } else {
+      const number = src.slice(i, end).match(NUMBER)?.[0]
+      if (number) {
+        i += number.length
+        value = UNITLESS_PROPERTIES.has(key) || Number(number) === 0 ? number : `${number}px`
+      }
+    }
+    // Double quotes and semicolons would break out of the style attribute or the declaration
+    if (value === undefined || /[";]/.test(value)) {
+      return undefined
+    }
+
+    declarations.push(`${camelToKebab(key)}:${value.trim()}`)
+
+    skipSpaces()
+    if (src[i] === ',') {
+      i++
+    } else if (i < end) {
+      return undefined
+    }
+  }
+
+  if (declarations.length === 0) {
+    return undefined
+  }
+
+  return { css: declarations.join(';'), quote: quote ?? '\'' }
+}
+
+function splitDeclarations (css: string): string[] {
+  const declarations: string[] = []
+  let depth = 0
+  let quote = ''
+  let current = ''
+
+  for (const char of css) {
+    if (quote) {
+      quote = char === quote ? '' : quote
+    } else if (char === '"' || char === '\'') {
+      quote = char
+    } else if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1)
+    } else if (char === ';' && depth === 0) {
+      declarations.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+
+  declarations.push(current)
+  return declarations.map(declaration => declaration.trim()).filter(Boolean)
+}
+
+/**
+ * Converts a CSS declaration list back to a style object literal, the inverse of `styleObjectToCss`.
+ * Numbers are written as numbers, and `px` lengths as plain numbers as React adds the unit back
+ */
+export function cssToStyleObject (css: string, quote: CssStyle['quote'] = '\''): string {
+  const entries = splitDeclarations(css).flatMap(declaration => {
+    const colon = declaration.indexOf(':')
+    if (colon === -1) {
+      return []
+    }
+
+    const property = declaration.slice(0, colon).trim()
+    const value = declaration.slice(colon + 1).trim()
+    const camel = kebabToCamel(property)
+    const key = /^[A-Za-z_$][\w$]*$/.test(camel) ? camel : `${quote}${camel}${quote}`
+
+    const unitless = UNITLESS_PROPERTIES.has(camel)
+    const number = value.match(/^(-?(?:\d+\.?\d*|\.\d+))(px)?$/)
+    if (number && (unitless ? !number[2] : (number[2] || Number(number[1]) === 0))) {
+      return [`${key}: ${number[1]}`]
+    }
+
+    const delimiter = value.includes(quote) ? (quote === '"' ? '\'' : '"') : quote
+    return [`${key}: ${delimiter}${value}${delimiter}`]
+  })
+
+  return `{ ${entries.join(', ')} }`
+}
@@ -0,0 +1,434 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { getDocumentTransformOptions, getProjectDialect, svgLocator } from './projectDialect'
+import { convertMarkupToJsx, extractSvgMarkup, hasDynamicContent, isReactNativeSvg, toStandaloneSvg } from './svgTransform'
+import { svgToDataUri } from './utils'
+import { LocatedSvgBlock } from './svgLocator'
+import { resolveDialect } from './dialects'
+import { buildSvgImport, findSvgReference, inlineSvgUsage } from './svgImport'
+import { toComponentName } from './svgComponent'
+
+/**
+ * Arguments shared by every inline SVG command, same shape as the hover link
+ */
+export interface InlineSvgArgs {
+  uri: string
+  start: number
+  length: number
+}
+
+/**
+ * Arguments of the command that inlines the SVG file referenced at an offset of a document
+ */
+export interface SvgFileReferenceArgs {
+  uri: string
+  offset: number
+}
+
+const OPTIMIZE_KIND = vscode.CodeActionKind.RefactorRewrite.append('svg.optimize')
+const EXTRACT_KIND = vscode.CodeActionKind.RefactorExtract.append('svg')
+const EXTRACT_IMPORT_KIND = EXTRACT_KIND.append('import')
+const DATA_URI_KIND = vscode.CodeActionKind.RefactorRewrite.append('svg.dataUri')
+const FORMAT_KIND = vscode.CodeActionKind.RefactorRewrite.append('svg.format')
+const INLINE_KIND = vscode.CodeActionKind.RefactorInline.append('svg')
+
+/**
+ * Finds the inline SVG containing the given range
+ */
+export function findSvgBlockAt (document: vscode.TextDocument, range: vscode.Range): LocatedSvgBlock | undefined {
+  return svgLocator.findBlockAt(document, document.offsetAt(range.start), document.offsetAt(range.end))
+}
+
+/**
+ * Resolves the target of an inline SVG command: the given bounds, or the SVG under the cursor of the active editor
+ */
+export async function resolveInlineSvgTarget (args?: InlineSvgArgs): Promise<{ document: vscode.TextDocument, range: vscode.Range } | undefined> {
+  if (args?.uri) {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(args.uri))
+    if (!(args.length > 0)) {
+      return undefined
+    }
+    return {
+      document,
+      range: new vscode.Range(document.positionAt(args.start ?? 0), document.positionAt((args.start ?? 0) + args.length))
+    }
+  }
+
+  const editor = vscode.window.activeTextEditor
+  if (!editor) {
+    return undefined
+  }
+
+  const block = findSvgBlockAt(editor.document, editor.selection)
+  if (!block) {
+    return undefined
+  }
+
+  return {
+    document: editor.document,
+    range: new vscode.Range(editor.document.positionAt(block.start), editor.document.positionAt(block.end))
+  }
+}
+
+function getLiteralAttribute (svgContent: string, name: string): string | undefined {
+  const openTag = svgContent.match(/<svg[^>]*>/i)?.[0] ?? ''
+  return openTag.match(new RegExp(`\\s${name}\\s*=\\s*(["'])([^"']*)\\1`))?.[2]
+}
+
+/**
+ * Builds the `<img>` tag that replaces an inline SVG, keeping its literal size and class
+ */
+function buildDataUriImage (svgContent: string, document: vscode.TextDocument): string {
+  const options = getDocumentTransformOptions(document)
+  const classAttribute = options.useCamelCase ? 'className' : 'class'
+  const attributes = [`src="${svgToDataUri(toStandaloneSvg(svgContent, options))}"`, 'alt=""']
+
+  for (const name of ['width', 'height']) {
+    const value = getLiteralAttribute(svgContent, name)
+    if (value) {
+      attributes.push(`${name}="${value}"`)
+    }
+  }
+
+  const className = getLiteralAttribute(svgContent, classAttribute)
+  if (className) {
+    attributes.push(`${classAttribute}="${className}"`)
+  }
+
+  return `<img ${attributes.join(' ')} />`
+}
+
+/**
+ * Offers refactorings for the inline SVG under the cursor or selection
+ */
+export class SvgCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [OPTIMIZE_KIND, FORMAT_KIND, EXTRACT_KIND, EXTRACT_IMPORT_KIND, DATA_URI_KIND, INLINE_KIND]
+
+  provideCodeActions (
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection
+  ): vscode.CodeAction[] {
+    // Standalone SVG files have their own commands
+    if (document.fileName.toLowerCase().endsWith('.svg')) {
+      return []
+    }
+
+    const block = findSvgBlockAt(document, range)
+    if (!block) {
+      return this.provideInlineFileActions(document, range)
+    }
+
+    const args: InlineSvgArgs = {
+      uri: document.uri.toString(),
+      start: block.start,
+      length: block.end - block.start
+    }
+
+    const actions = [
+      this.createAction('Optimize inline SVG', OPTIMIZE_KIND, 'betterSvg.optimizeFromHover', args),
+      this.createAction('Format SVG', FORMAT_KIND, 'betterSvg.format', args),
+      this.createAction('Extract SVG to file', EXTRACT_KIND, 'betterSvg.extractInlineSvg', args),
+      this.createAction('Extract SVG to file and import it', EXTRACT_IMPORT_KIND, 'betterSvg.extractInlineSvgToImport', args)
+    ]
+
+    const dataUri = this.createAction('Convert to data URI', DATA_URI_KIND, 'betterSvg.convertInlineSvgToDataUri', args)
+    if (isReactNativeSvg(block.content)) {
+      dataUri.disabled = { reason: 'React Native has no <img> element to show a data URI' }
+    } else if (block.dynamic) {
+      dataUri.disabled = { reason: 'The SVG contains dynamic attributes or expressions' }
+    }
+    actions.push(dataUri)
+
+    return actions
+  }
+
+  /**
+   * Offers to inline the SVG file referenced under the cursor (import, component or `<img>`)
+   */
+  private provideInlineFileActions (document: vscode.TextDocument, range: vscode.Range): vscode.CodeAction[] {
+    const offset = document.offsetAt(range.start)
+    if (!findSvgReference(document.getText(), offset)) {
+      return []
+    }
+
+    const args: SvgFileReferenceArgs = { uri: document.uri.toString(), offset }
+    return [this.createAction('Inline SVG file', INLINE_KIND, 'betterSvg.inlineSvgFile', args)]
+  }
+
+  private createAction (title: string, kind: vscode.CodeActionKind, command: string, args: InlineSvgArgs | SvgFileReferenceArgs): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, kind)
+    action.command = { title, command, arguments: [args] }
+    return action
+  }
+}
+
+/**
+ * Folder proposed for extracted SVGs: `betterSvg.extract.defaultFolder` relative to the workspace folder, or the folder of the document
+ */
+function getExtractFolder (document: vscode.TextDocument): string {
+  const documentFolder = path.dirname(document.uri.fsPath)
+  const defaultFolder = vscode.workspace.getConfiguration('betterSvg.extract').get<string>('defaultFolder', '').trim()
+  if (!defaultFolder) {
+    return documentFolder
+  }
+
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)
+  return path.resolve(workspaceFolder?.uri.fsPath ?? documentFolder, defaultFolder)
+}
+
+/**
+ * Asks for the path of the new SVG file. Returns undefined if cancelled
+ */
+async function askSvgFilePath (document: vscode.TextDocument): Promise<vscode.Uri | undefined> {
+  const folder = getExtractFolder(document)
+  const fileName = await vscode.window.showInputBox({
+    prompt: 'Path of the new SVG file',
+    value: path.join(folder, 'icon.svg'),
+    valueSelection: [folder.length + 1, folder.length + 5],
+    validateInput: value => value.toLowerCase().endsWith('.svg') ? undefined : 'The file name must end with .svg'
+  })
+
+  return fileName ? vscode.Uri.file(path.resolve(folder, fileName)) : undefined
+}
+
+/**
+ * Asks before replacing an existing file. Returns false if the user keeps it
+ */
+async function confirmOverwrite (fileUri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(fileUri)
+  } catch {
+    return true
+  }
+
+  const overwrite = 'Overwrite'
+  const choice = await vscode.window.showWarningMessage(
+    `${vscode.workspace.asRelativePath(fileUri)} already exists`,
+    { modal: true },
+    overwrite
+  )
+  return choice === overwrite
+}
+
+/**
+ * Writes the inline SVG to a new .svg file, in the folder of the document or `betterSvg.extract.defaultFolder`
+ */
+export async function extractInlineSvg (args?: InlineSvgArgs) {
+  const target = await resolveInlineSvgTarget(args)
+  if (!target) {
+    vscode.window.showErrorMessage('No SVG found at cursor position')
+    return
+  }
+
+  const { document, range } = target
+  const svgContent = toStandaloneSvg(document.getText(range), getDocumentTransformOptions(document))
+
+  const fileUri = await askSvgFilePath(document)
+  if (!fileUri || !(await confirmOverwrite(fileUri))) {
+    return
+  }
+
+  try {
+    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(svgContent, 'utf8'))
+
+    const open = 'Open File'
+    vscode.window.showInformationMessage(`SVG extracted to ${vscode.workspace.asRelativePath(fileUri)}`, open)
+      .then(choice => {
+        if (choice === open) {
+          vscode.window.showTextDocument(fileUri)
+        }
+      })
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to extract SVG: ${error}`)
+  }
+}
+
+/**
+ * Writes the inline SVG to a new .svg file and replaces it with an import and a usage that fits the
+ * framework of the document (`?react` component, Vue or Astro component, `<img>`)
+ */
+export async function extractInlineSvgToImport (args?: InlineSvgArgs) {
+  const target = await resolveInlineSvgTarget(args)
+  if (!target) {
+    vscode.window.showErrorMessage('No SVG found at cursor position')
+    return
+  }
+
+  const { document, range } = target
+  const svgContent = document.getText(range)
+  const version = document.version
+
+  const fileUri = await askSvgFilePath(document)
+  if (!fileUri || !(await confirmOverwrite(fileUri))) {
+    return
+  }
+
+  // The range was found before the prompts, edits made meanwhile would put it on other text
+  if (document.version !== version) {
+    vscode.window.showErrorMessage('The document changed while extracting the SVG, run the action again')
+    return
+  }
+
+  let importPath = path.relative(path.dirname(document.uri.fsPath), fileUri.fsPath).split(path.sep).join('/')
+  if (!importPath.startsWith('../')) {
+    importPath = `./${importPath}`
+  }
+
+  const pattern = vscode.workspace.getConfiguration('betterSvg.component').get<string>('name', '{name}Icon')
+  const edit = buildSvgImport(document.getText(), svgContent, {
+    importPath,
+    componentName: toComponentName(path.basename(fileUri.fsPath), pattern),
+    languageId: document.languageId,
+    dialect: resolveDialect(document.languageId, getProjectDialect(document.uri))
+  })
+
+  try {
+    // The file is created in the same edit, so it is not left behind if the edit fails and one undo reverts both
+    const workspaceEdit = new vscode.WorkspaceEdit()
+    workspaceEdit.createFile(fileUri, {
+      overwrite: true,
+      contents: Buffer.from(toStandaloneSvg(svgContent, getDocumentTransformOptions(document)), 'utf8')
+    })
+    workspaceEdit.replace(document.uri, range, edit.usage)
+    if (edit.import) {
+      workspaceEdit.insert(document.uri, document.positionAt(edit.import.offset), edit.import.text)
+    }
+
+    const success = await vscode.workspace.applyEdit(workspaceEdit)
+    if (!success) {
+      vscode.window.showErrorMessage('Failed to replace the SVG with an import')
+      return
+    }
+
+    if (edit.droppedDynamicContent) {
+      vscode.window.showWarningMessage('Expressions and dynamic attributes inside the SVG cannot be kept in a static file and were dropped')
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to extract SVG: ${error}`)
+  }
+}
+
+/**
+ * Finds the file an SVG reference points at: relative to the document, and root paths (`/logo.svg`)
+ * in the public folder or the root of the workspace folder
+ */
+async function resolveSvgFile (document: vscode.TextDocument, referencePath: string): Promise<vscode.Uri | undefined> {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath
+  const candidates = referencePath.startsWith('/')
+    ? (workspaceFolder ? [path.join(workspaceFolder, 'public', referencePath), path.join(workspaceFolder, referencePath)] : [])
+    : [path.resolve(path.dirname(document.uri.fsPath), referencePath)]
+
+  for (const candidate of candidates) {
+    const uri = vscode.Uri.file(candidate)
+    try {
+      await vscode.workspace.fs.stat(uri)
+      return uri
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Replaces the usages of an SVG file (imported component or `<img>`) with its markup, converted
+ * to JSX in JSX files, and removes the import when nothing else uses it
+ */
+export async function inlineSvgFile (args?: SvgFileReferenceArgs) {
+  const editor = vscode.window.activeTextEditor
+  const document = args?.uri ? await vscode.workspace.openTextDocument(vscode.Uri.parse(args.uri)) : editor?.document
+  if (!document) {
+    vscode.window.showErrorMessage('No active editor')
+    return
+  }
+
+  const offset = args?.uri ? args.offset : document.offsetAt(editor!.selection.active)
+  const reference = findSvgReference(document.getText(), offset)
+  if (!reference) {
+    vscode.window.showErrorMessage('No SVG file reference found at cursor position')
+    return
+  }
+
+  const fileUri = await resolveSvgFile(document, reference.path)
+  if (!fileUri) {
+    vscode.window.showErrorMessage(`Cannot find ${reference.path}`)
+    return
+  }
+
+  try {
+    const svg = extractSvgMarkup(Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8'))
+    if (!svg) {
+      vscode.window.showErrorMessage(`${vscode.workspace.asRelativePath(fileUri)} does not contain a single <svg> element`)
+      return
+    }
+
+    const options = getDocumentTransformOptions(document)
+    const markup = options.jsx ? convertMarkupToJsx(svg, options) : svg
+
+    const edit = new vscode.WorkspaceEdit()
+    for (const usage of reference.usages) {
+      const start = document.positionAt(usage.start)
+      const indentation = document.lineAt(start.line).text.match(/^\s*/)![0]
+      edit.replace(document.uri, new vscode.Range(start, document.positionAt(usage.end)), inlineSvgUsage(markup, usage, indentation))
+    }
+    if (reference.unusedImport) {
+      edit.delete(document.uri, new vscode.Range(document.positionAt(reference.unusedImport.start), document.positionAt(reference.unusedImport.end)))
+    }
+
+    const success = await vscode.workspace.applyEdit(edit)
+    if (!success) {
+      vscode.window.showErrorMessage('Failed to inline the SVG file')
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to inline the SVG file: ${error}`)
+  }
+}
+
+/**
+ * Replaces a static inline SVG with an `<img>` that embeds it as a data URI
+ */
+export async function convertInlineSvgToDataUri (args?: InlineSvgArgs) {
+  const target = await resolveInlineSvgTarget(args)
+  if (!target) {
+    vscode.window.showErrorMessage('No SVG found at cursor position')
+    return
+  }
+
+  const { document, range } = target
+  const svgContent = document.getText(range)
+
+  if (isReactNativeSvg(svgContent)) {
+    vscode.window.showErrorMessage('react-native-svg components cannot be converted to a data URI')
+    return
+  }
+
+  if (hasDynamicContent(svgContent, getDocumentTransformOptions(document))) {
+    vscode.window.showErrorMessage('SVGs with dynamic attributes or expressions cannot be converted to a data URI')
+    return
+  }
+
+  const edit = new vscode.WorkspaceEdit()
+  edit.replace(document.uri, range, buildDataUriImage(svgContent, document))
+
+  const success = await vscode.workspace.applyEdit(edit)
+  if (!success) {
+    vscode.window.showErrorMessage('Failed to convert SVG to data URI')
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { buildComponent, toComponentName } from './svgComponent'
+
+const ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2" class="icon" viewBox="0 0 24 24">
+  <path d="M19 12H5"/>
+  <g style="opacity:.5;stroke-linecap:round">
+    <path d="m12 19-7-7 7-7"/>
+  </g>
+</svg>`
+
+describe('toComponentName', () => {
+    it('should convert file names to PascalCase with the pattern', () => {
+        assert.strictEqual(toComponentName('arrow-left.svg'), 'ArrowLeftIcon')
+        assert.strictEqual(toComponentName('user_circle 2.SVG', 'Icon{name}'), 'IconUserCircle2')
+        assert.strictEqual(toComponentName('chevronDown.svg', '{name}'), 'ChevronDown')
+    })
+
+    it('should always return a valid identifier', () => {
+        assert.strictEqual(toComponentName('24-hours.svg', '{name}'), 'Svg24Hours')
+        assert.strictEqual(toComponentName('---.svg', '{name}'), 'SvgIcon')
+        assert.strictEqual(toComponentName('logo.svg', '{name}-icon'), 'Logoicon')
+    })
+})
+
+describe('buildComponent', () => {
+    const options = { name: 'ArrowLeftIcon', size: 24, color: 'currentColor' }
+
+    it('should build a typed React component with JSX attributes', () => {
+        const component = buildComponent(ICON, { ...options, framework: 'react' })
+
+        assert.ok(component.includes('export interface ArrowLeftIconProps extends SVGProps<SVGSVGElement>'))
+        assert.ok(component.includes('export function ArrowLeftIcon ({ size = 24, color = \'currentColor\', title, ...rest }: ArrowLeftIconProps)'))
+        assert.ok(component.includes(
+            '<svg xmlns="http://www.w3.org/2000/svg" fill="none" stroke="currentColor" strokeWidth="2" className="icon" viewBox="0 0 24 24" ' +
+            'width={size} height={size} color={color} aria-hidden={title ? undefined : true} {...rest}>'
+        ))
+        assert.ok(component.includes('      {title ? <title>{title}</title> : null}\n      <path d="M19 12H5"/>\n      <g style={{ opacity: .5, strokeLinecap: \'round\' }}>\n        <path'))
+        assert.ok(component.includes('export default ArrowLeftIcon'))
+    })
+
+    it('should build a Vue single file component', () => {
+        const component = buildComponent(ICON, { ...options, framework: 'vue', size: '1em' })
+
+        assert.ok(component.includes('size: \'1em\',\n  color: \'currentColor\''))
+        assert.ok(component.includes('stroke-width="2" class="icon" viewBox="0 0 24 24" :width="size" :height="size" :color="color"'))
+        assert.ok(component.includes('<title v-if="title">{{ title }}</title>\n    <path d="M19 12H5"/>'))
+        assert.ok(component.includes('<g style="opacity:.5;stroke-linecap:round">'))
+    })
+
+    it('should build Svelte, Astro and Solid components', () => {
+        const svelte = buildComponent(ICON, { ...options, framework: 'svelte' })
+        assert.ok(svelte.includes('let { size = 24, color = \'currentColor\', title, ...rest }: Props = $props()'))
+        assert.ok(svelte.includes('width={size} height={size} {color} aria-hidden={title ? undefined : true} {...rest}>'))
+
+        const astro = buildComponent(ICON, { ...options, framework: 'astro' })
+        assert.ok(astro.includes('const { size = 24, color = \'currentColor\', title, ...rest } = Astro.props'))
+        assert.ok(astro.includes('{title && <title>{title}</title>}'))
+
+        const solid = buildComponent(ICON, { ...options, framework: 'solid' })
+        assert.ok(solid.includes('const [local, rest] = splitProps(merged, [\'size\', \'color\', \'title\'])'))
+        // Solid uses the SVG attribute names
+        assert.ok(solid.includes('stroke-width="2" class="icon"'))
+    })
+
+    it('should make style elements valid in every framework', () => {
+        const svg = '<svg viewBox="0 0 24 24"><style>.a{fill:red}</style><path class="a" d="M0 0h24v24H0z"/></svg>'
+
+        assert.ok(buildComponent(svg, { ...options, framework: 'react' }).includes('<style>{`.a{fill:red}`}</style>'))
+        assert.ok(buildComponent(svg, { ...options, framework: 'vue' }).includes('<component is="style">.a{fill:red}</component>'))
+        assert.ok(buildComponent(svg, { ...options, framework: 'astro' }).includes('<style is:inline>.a{fill:red}</style>'))
+        assert.ok(buildComponent(svg, { ...options, framework: 'svelte' }).includes('<style>.a{fill:red}</style>'))
+    })
+
+    it('should replace the root width, height and color with the props', () => {
+        const svg = '<svg width="16" height="16" color="red" aria-hidden="true" viewBox="0 0 16 16"/>'
+        const component = buildComponent(svg, { ...options, framework: 'react' })
+
+        assert.ok(component.includes('<svg viewBox="0 0 16 16" width={size}'))
+        assert.ok(component.includes('{title ? <title>{title}</title> : null}\n    </svg>'))
+    })
+})
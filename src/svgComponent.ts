@@ -0,0 +1,240 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { convertMarkupToJsx } from './svgTransform'
+
+export const COMPONENT_FRAMEWORKS = ['react', 'vue', 'svelte', 'astro', 'solid'] as const
+
+export type ComponentFramework = typeof COMPONENT_FRAMEWORKS[number]
+
+export const COMPONENT_EXTENSIONS: Record<ComponentFramework, string> = {
+  react: '.tsx',
+  vue: '.vue',
+  svelte: '.svelte',
+  astro: '.astro',
+  solid: '.tsx'
+}
+
+export interface ComponentOptions {
+  name: string
+  framework: ComponentFramework
+  /**
+   * Default of the `size` prop, used as width and height
+   */
+  size: number | string
+  /**
+   * Default of the `color` prop, which `currentColor` inside the SVG resolves to
+   */
+  color: string
+}
+
+// Replaced by the size and color props, or set from the title prop
+const ROOT_PROP_ATTRIBUTES = ['width', 'height', 'color', 'aria-hidden', 'ariaHidden']
+
+/**
+ * Component name for an SVG file name: `{name}` in the pattern is replaced by the
+ * PascalCase file name (`arrow-left.svg` with `{name}Icon` gives `ArrowLeftIcon`)
+ */
+export function toComponentName (fileName: string, pattern = '{name}Icon'): string {
+  const name = fileName
+    .replace(/\.svg$/i, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('')
+
+  const componentName = pattern.split('{name}').join(name).replace(/[^\w$]/g, '')
+  if (!componentName) {
+    return 'SvgIcon'
+  }
+  // Identifiers cannot start with a digit (24-hours.svg)
+  return /^\d/.test(componentName) ? `Svg${componentName}` : componentName
+}
+
+function toLiteral (value: number | string): string {
+  return typeof value === 'number' ? String(value) : `'${value.replace(/[\\']/g, '\\$&')}'`
+}
+
+/**
+ * Re-indents markup to the given indentation, keeping the nesting of its lines
+ */
+function indentMarkup (markup: string, indentation: string): string {
+  const lines = markup.split('\n').filter(line => line.trim())
+  const common = Math.min(...lines.map(line => line.match(/^\s*/)![0].length))
+  return lines.map(line => indentation + line.slice(common).trimEnd()).join('\n')
+}
+
+/**
+ * Makes `<style>` elements valid in templates: Vue drops style tags from them and Astro would scope and hoist them
+ */
+function convertStyleElements (markup: string, framework: ComponentFramework): string {
+  return markup.replace(/<style([^>]*)>([\s\S]*?)<\/style>/g, (_match, attributes: string, css: string) => {
+    css = css.replace(/^\s*<!\[CDATA\[|\]\]>\s*$/g, '')
+    switch (framework) {
+      case 'vue':
+        return `<component is="style"${attributes}>${css}</component>`
+      case 'astro':
+        return `<style is:inline${attributes}>${css}</style>`
+      default:
+        return `<style${attributes}>${css}</style>`
+    }
+  })
+}
+
+/**
+ * Splits an optimized SVG into the attributes of the root element (without the ones replaced by props) and its children
+ */
+function splitRoot (svg: string): { attributes: string, content: string } {
+  const open = svg.match(/<svg\b((?:[^>"']|"[^"]*"|'[^']*')*)>/)
+  if (!open) {
+    throw new Error('No <svg> element found')
+  }
+
+  const selfClosing = open[1].endsWith('/')
+  const attributes = (open[1].match(/[^\s=/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|\{[^}]*\}+))?/g) ?? [])
+    .filter(attribute => !ROOT_PROP_ATTRIBUTES.includes(attribute.split('=')[0].trim()))
+
+  const contentStart = open.index! + open[0].length
+  const contentEnd = svg.lastIndexOf('</svg>')
+
+  return {
+    attributes: attributes.map(attribute => ` ${attribute}`).join(''),
+    content: selfClosing || contentEnd < contentStart ? '' : svg.slice(contentStart, contentEnd)
+  }
+}
+
+/**
+ * Builds the source of a component file from an optimized SVG, with `size`, `color` and `title`
+ * props, and every other prop forwarded to the `<svg>` element
+ */
+export function buildComponent (svg: string, options: ComponentOptions): string {
+  const { name, framework } = options
+  const size = toLiteral(options.size)
+  const color = toLiteral(options.color)
+
+  const markup = framework === 'react' || framework === 'solid'
+    ? convertMarkupToJsx(svg, { useCamelCase: framework === 'react' })
+    : convertStyleElements(svg, framework)
+
+  const { attributes, content } = splitRoot(markup)
+  const children = (indentation: string) => content.trim() ? `\n${indentMarkup(content, indentation)}` : ''
+
+  switch (framework) {
+    case 'react':
+      return `import type { SVGProps } from 'react'
+
+export interface ${name}Props extends SVGProps<SVGSVGElement> {
+  size?: number | string
+  color?: string
+  title?: string
+}
+
+export function ${name} ({ size = ${size}, color = ${color}, title, ...rest }: ${name}Props) {
+  return (
+    <svg${attributes} width={size} height={size} color={color} aria-hidden={title ? undefined : true} {...rest}>
+      {title ? <title>{title}</title> : null}${children('      ')}
+    </svg>
+  )
+}
+
+export default ${name}
+`
+
+    case 'solid':
+      return `import { mergeProps, Show, splitProps } from 'solid-js'
+import type { JSX } from 'solid-js'
+
+export interface ${name}Props extends JSX.SvgSVGAttributes<SVGSVGElement> {
+  size?: number | string
+  color?: string
+  title?: string
+}
+
+export function ${name} (props: ${name}Props) {
+  const merged = mergeProps({ size: ${size}, color: ${color} }, props)
+  const [local, rest] = splitProps(merged, ['size', 'color', 'title'])
+
+  return (
+    <svg${attributes} width={local.size} height={local.size} color={local.color} aria-hidden={local.title ? undefined : true} {...rest}>
+      <Show when={local.title}>
+        <title>{local.title}</title>
+      </Show>${children('      ')}
+    </svg>
+  )
+}
+
+export default ${name}
+`
+
+    case 'vue':
+      // Attributes not declared as props fall through to the root <svg>
+      return `<script setup lang="ts">
+withDefaults(defineProps<{
+  size?: number | string
+  color?: string
+  title?: string
+}>(), {
+  size: ${size},
+  color: ${color}
+})
+</script>
+
+<template>
+  <svg${attributes} :width="size" :height="size" :color="color" :aria-hidden="title ? undefined : true">
+    <title v-if="title">{{ title }}</title>${children('    ')}
+  </svg>
+</template>
+`
+
+    case 'svelte':
+      return `<script lang="ts">
+  import type { SVGAttributes } from 'svelte/elements'
+
+  interface Props extends SVGAttributes<SVGSVGElement> {
+    size?: number | string
+    color?: string
+    title?: string
+  }
+
+  let { size = ${size}, color = ${color}, title, ...rest }: Props = $props()
+</script>
+
+<svg${attributes} width={size} height={size} {color} aria-hidden={title ? undefined : true} {...rest}>
+  {#if title}
+    <title>{title}</title>
+  {/if}${children('  ')}
+</svg>
+`
+
+    case 'astro':
+      return `---
+import type { SVGAttributes } from 'astro/types'
+
+interface Props extends SVGAttributes {
+  size?: number | string
+  color?: string
+  title?: string
+}
+
+const { size = ${size}, color = ${color}, title, ...rest } = Astro.props
+---
+
+<svg${attributes} width={size} height={size} color={color} aria-hidden={title ? undefined : 'true'} {...rest}>
+  {title && <title>{title}</title>}${children('  ')}
+</svg>
+`
+  }
+}
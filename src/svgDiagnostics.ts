@@ -0,0 +1,192 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { SUPPORTED_LANGUAGES } from './consts'
+import { getDocumentTransformOptions, svgLocator } from './projectDialect'
+import { lintSvg, SVG_LINT_RULES, SvgLintIssue, SvgLintRule } from './svgLint'
+import { lintDuplicateIdsAcrossBlocks } from './svgIds'
+
+export const DIAGNOSTIC_SOURCE = 'Better SVG'
+
+type RuleSeverity = 'error' | 'warning' | 'information' | 'hint' | 'off'
+
+const DEFAULT_SEVERITIES: Record<SvgLintRule, RuleSeverity> = {
+  'missing-viewbox': 'warning',
+  'missing-xmlns': 'warning',
+  'hardcoded-dimensions': 'hint',
+  'embedded-raster': 'warning',
+  'unused-defs': 'information',
+  'duplicate-ids': 'warning',
+  'duplicate-ids-across-svgs': 'warning',
+  'excessive-precision': 'hint',
+  'a11y-missing-name': 'warning',
+  'a11y-missing-role': 'information',
+  'a11y-title-not-linked': 'information'
+}
+
+const SEVERITIES: Record<Exclude<RuleSeverity, 'off'>, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint
+}
+
+/**
+ * A lint issue with its offsets translated to the document
+ */
+interface DocumentLintIssue extends SvgLintIssue {
+  offset: number
+}
+
+function isSvgDocument (document: vscode.TextDocument): boolean {
+  return document.fileName.toLowerCase().endsWith('.svg')
+}
+
+function getRuleSeverities (): Record<SvgLintRule, RuleSeverity> {
+  const configured = vscode.workspace.getConfiguration('betterSvg.lint').get<Partial<Record<SvgLintRule, RuleSeverity>>>('rules', {})
+  return { ...DEFAULT_SEVERITIES, ...configured }
+}
+
+function lintDocument (document: vscode.TextDocument): DocumentLintIssue[] {
+  const config = vscode.workspace.getConfiguration('betterSvg.lint')
+  const maxPrecision = config.get<number>('maxPrecision', 3)
+  const text = document.getText()
+
+  if (isSvgDocument(document)) {
+    // "arrow-left.svg" suggests "arrow left" as accessible name
+    const label = path.basename(document.fileName, path.extname(document.fileName)).replace(/[-_.]+/g, ' ')
+    return lintSvg(text, { standalone: true, maxPrecision, label }).map(issue => ({ ...issue, offset: 0 }))
+  }
+
+  const options = { ...getDocumentTransformOptions(document), maxPrecision }
+  const blocks = svgLocator.getBlocks(document)
+  // Prefixes are named after the file ("Header.tsx" gives "header-1-") so they stay unique across a page
+  const name = path.basename(document.fileName, path.extname(document.fileName)).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  const prefix = `${name || 'svg'}-`
+
+  return [
+    ...blocks.flatMap((block, index) =>
+      lintSvg(block.content, { ...options, index }).map(issue => ({ ...issue, offset: block.start }))
+    ),
+    ...lintDuplicateIdsAcrossBlocks(text, blocks, prefix).map(issue => ({ ...issue, offset: 0 }))
+  ]
+}
+
+function toRange (document: vscode.TextDocument, offset: number, start: number, end: number): vscode.Range {
+  return new vscode.Range(document.positionAt(offset + start), document.positionAt(offset + end))
+}
+
+/**
+ * Keeps a DiagnosticCollection in sync with the SVG problems of the open documents
+ */
+export class SvgDiagnostics implements vscode.Disposable {
+  private readonly collection = vscode.languages.createDiagnosticCollection('betterSvg')
+
+  public update (document: vscode.TextDocument) {
+    const enabled = vscode.workspace.getConfiguration('betterSvg.lint').get<boolean>('enabled', true)
+    if (!enabled || !(isSvgDocument(document) || SUPPORTED_LANGUAGES.includes(document.languageId))) {
+      this.collection.delete(document.uri)
+      return
+    }
+
+    const severities = getRuleSeverities()
+    const diagnostics: vscode.Diagnostic[] = []
+
+    for (const issue of lintDocument(document)) {
+      const severity = severities[issue.rule]
+      if (!severity || severity === 'off' || !(severity in SEVERITIES)) {
+        continue
+      }
+
+      const diagnostic = new vscode.Diagnostic(
+        toRange(document, issue.offset, issue.start, issue.end),
+        issue.message,
+        SEVERITIES[severity]
+      )
+      diagnostic.source = DIAGNOSTIC_SOURCE
+      diagnostic.code = issue.rule
+      diagnostics.push(diagnostic)
+    }
+
+    this.collection.set(document.uri, diagnostics)
+  }
+
+  public delete (uri: vscode.Uri) {
+    this.collection.delete(uri)
+  }
+
+  public refreshAll () {
+    this.collection.clear()
+    for (const document of vscode.workspace.textDocuments) {
+      this.update(document)
+    }
+  }
+
+  public dispose () {
+    this.collection.dispose()
+  }
+}
+
+/**
+ * Offers the quick fixes of the lint rules that have one
+ */
+export class SvgLintCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix]
+
+  provideCodeActions (
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const diagnostics = context.diagnostics.filter(diagnostic =>
+      diagnostic.source === DIAGNOSTIC_SOURCE && SVG_LINT_RULES.includes(diagnostic.code as SvgLintRule)
+    )
+
+    if (diagnostics.length === 0) {
+      return []
+    }
+
+    // Diagnostics handed back by VS Code are copies, so the fixes are recomputed and matched by rule and range
+    const issues = lintDocument(document)
+    const actions: vscode.CodeAction[] = []
+
+    for (const diagnostic of diagnostics) {
+      const issue = issues.find(issue =>
+        issue.rule === diagnostic.code &&
+        toRange(document, issue.offset, issue.start, issue.end).isEqual(diagnostic.range)
+      )
+
+      if (!issue?.fixes) {
+        continue
+      }
+
+      for (const fix of issue.fixes) {
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix)
+        action.diagnostics = [diagnostic]
+        action.isPreferred = issue.fixes.length === 1
+        action.edit = new vscode.WorkspaceEdit()
+        for (const edit of fix.edits) {
+          action.edit.replace(document.uri, toRange(document, issue.offset, edit.start, edit.end), edit.newText)
+        }
+        actions.push(action)
+      }
+    }
+
+    return actions
+  }
+}
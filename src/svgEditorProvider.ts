@@ -17,6 +17,7 @@
 import * as vscode from 'vscode'
 import * as fs from 'fs'
 import { optimizeSvgDocument } from './extension'
+import { replaceMinimally } from './textEdits'
 
 export class SvgPreviewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'betterSvg.preview'
@@ -152,11 +153,7 @@ export class SvgPreviewProvider implements vscode.WebviewViewProvider {
 
   private updateTextDocument (document: vscode.TextDocument, content: string) {
     const edit = new vscode.WorkspaceEdit()
-    edit.replace(
-      document.uri,
-      new vscode.Range(0, 0, document.lineCount, 0),
-      content
-    )
+    replaceMinimally(edit, document, new vscode.Range(0, 0, document.lineCount, 0), content)
     vscode.workspace.applyEdit(edit)
   }
 
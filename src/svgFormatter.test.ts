@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { formatInlineSvg, formatSvg, restoreAttributeOrder, SvgFormatOptions } from './svgFormatter'
+import { getDialectOptions } from './dialects'
+import { finalizeAfterOptimization, prepareForOptimization } from './svgTransform'
+
+const options: SvgFormatOptions = { indent: '  ', wrapAttributes: 'auto', maxLineLength: 80, sortAttributes: false }
+
+describe('formatSvg', () => {
+    it('should put every element on its own line', () => {
+        const svg = '<?xml version="1.0"?><!-- icon --><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><g fill="none"><path d="M0 0h24"/><circle r="2"></circle></g><g></g></svg>'
+        assert.strictEqual(formatSvg(svg, options), [
+            '<?xml version="1.0"?>',
+            '<!-- icon -->',
+            '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">',
+            '  <g fill="none">',
+            '    <path d="M0 0h24" />',
+            '    <circle r="2"></circle>',
+            '  </g>',
+            '  <g></g>',
+            '</svg>'
+        ].join('\n'))
+    })
+
+    it('should keep the content of text and style elements as written', () => {
+        const svg = '<svg>\n<style>\n  .a { fill: red }\n</style>\n<text x="1">Hello <tspan>world</tspan> </text></svg>'
+        assert.strictEqual(
+            formatSvg(svg, { ...options, indent: '\t' }),
+            '<svg>\n\t<style>\n  .a { fill: red }\n</style>\n\t<text x="1">Hello <tspan>world</tspan> </text>\n</svg>'
+        )
+    })
+
+    it('should wrap attributes past the maximum line length or always', () => {
+        const svg = '<svg viewBox="0 0 24 24"><path d="M12 2 2 7l10 5 10-5-10-5Z" stroke-linecap="round" stroke-linejoin="round"/></svg>'
+        assert.strictEqual(formatSvg(svg, options), [
+            '<svg viewBox="0 0 24 24">',
+            '  <path',
+            '    d="M12 2 2 7l10 5 10-5-10-5Z"',
+            '    stroke-linecap="round"',
+            '    stroke-linejoin="round"',
+            '  />',
+            '</svg>'
+        ].join('\n'))
+
+        assert.strictEqual(
+            formatSvg('<svg width="24" height="24"><title>Logo</title></svg>', { ...options, wrapAttributes: 'always' }),
+            '<svg\n  width="24"\n  height="24"\n>\n  <title>Logo</title>\n</svg>'
+        )
+        assert.strictEqual(formatSvg(svg, { ...options, wrapAttributes: 'never' }).split('\n').length, 3)
+    })
+
+    it('should sort attributes canonically', () => {
+        const svg = '<svg fill="none" viewBox="0 0 24 24" data-icon="x" class="icon" xmlns="http://www.w3.org/2000/svg" id="logo" height="24" width="24"/>'
+        assert.strictEqual(
+            formatSvg(svg, { ...options, maxLineLength: 200, sortAttributes: true }),
+            '<svg xmlns="http://www.w3.org/2000/svg" id="logo" class="icon" width="24" height="24" viewBox="0 0 24 24" fill="none" data-icon="x" />'
+        )
+    })
+
+    it('should be idempotent', () => {
+        const svg = '<svg xmlns="http://www.w3.org/2000/svg"><defs><linearGradient id="a" x1="0" x2="1"><stop offset="0" stop-color="#fff"/></linearGradient></defs><rect width="10" height="10" fill="url(#a)" transform="rotate(45 5 5)" stroke="#000"/></svg>'
+        const formatted = formatSvg(svg, { ...options, maxLineLength: 40, sortAttributes: true })
+        assert.strictEqual(formatSvg(formatted, { ...options, maxLineLength: 40, sortAttributes: true }), formatted)
+    })
+
+    it('should reject markup that is not well formed', () => {
+        assert.throws(() => formatSvg('<svg><g></svg>', options))
+        assert.throws(() => formatSvg('<svg><path d="M0 0"', options))
+    })
+})
+
+describe('formatInlineSvg', () => {
+    it('should keep JSX expressions and the indentation of the host document', () => {
+        const svg = '<svg width={size} {...props} fill="none" className="icon">{title && <title>{title}</title>}\n      <path strokeWidth={2} d="M0 0"/></svg>'
+        const formatted = formatInlineSvg(svg, { ...options, maxLineLength: 200, sortAttributes: true, baseIndent: '    ' }, getDialectOptions('react'))
+        // Attributes are not moved across the spread, which they override
+        assert.strictEqual(formatted, [
+            '<svg width={size} {...props} className="icon" fill="none">',
+            '      {title && <title>{title}</title>}',
+            '      <path d="M0 0" strokeWidth={2} />',
+            '    </svg>'
+        ].join('\n'))
+        assert.strictEqual(formatInlineSvg(formatted, { ...options, maxLineLength: 200, sortAttributes: true, baseIndent: '    ' }, getDialectOptions('react')), formatted)
+    })
+
+    it('should order Vue bindings and directives', () => {
+        const svg = '<svg @click="select" :width="size" viewBox="0 0 24 24"><path fill="red" :d="path" v-for="path in paths" :key="path"/>{{ label }}</svg>'
+        assert.strictEqual(
+            formatInlineSvg(svg, { ...options, maxLineLength: 200, sortAttributes: true }, getDialectOptions('markup')),
+            '<svg :width="size" viewBox="0 0 24 24" @click="select">\n  <path v-for="path in paths" :key="path" :d="path" fill="red" />\n  {{ label }}\n</svg>'
+        )
+    })
+})
+
+describe('restoreAttributeOrder', () => {
+    it('should keep attributes on their side of spreads through an optimizer sorting them', () => {
+        const options = getDialectOptions('react')
+        const { preparedSvg } = prepareForOptimization('<svg width={size} viewBox="0 0 24 24" {...props}><path d="M0 0" {...rest} fill="red"/></svg>', options)
+        // Sorted by name like SVGO sortAttrs does, the spreads come first
+        const sorted = '<svg data-better-svg-temp-data-spread-0="__JSX_BASE64__cHJvcHM=__" data-better-svg-temp-width="__JSX_BASE64__c2l6ZQ==__" viewBox="0 0 24 24">' +
+            '<path data-better-svg-temp-data-spread-1="__JSX_BASE64__cmVzdA==__" d="M0 0" fill="red"/></svg>'
+
+        const restored = restoreAttributeOrder(preparedSvg, sorted)
+        assert.strictEqual(finalizeAfterOptimization(restored, true, options), '<svg width={size} viewBox="0 0 24 24" {...props}><path d="M0 0" {...rest} fill="red"/></svg>')
+        assert.strictEqual(restoreAttributeOrder(preparedSvg, preparedSvg), preparedSvg)
+    })
+})
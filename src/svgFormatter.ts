@@ -0,0 +1,461 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  finalizeAfterOptimization,
+  getSourceAttributeName,
+  OptimizationOptions,
+  prepareForOptimization
+} from './svgTransform'
+
+export const ATTRIBUTE_WRAPS = ['auto', 'always', 'never'] as const
+
+export type AttributeWrap = typeof ATTRIBUTE_WRAPS[number]
+
+export interface SvgFormatOptions {
+  /**
+   * Indentation of each nesting level
+   */
+  indent: string
+  /**
+   * When attributes go one per line: past `maxLineLength`, whenever a tag has several, or never
+   */
+  wrapAttributes: AttributeWrap
+  maxLineLength: number
+  /**
+   * Orders attributes as namespaces, rendering directives and keys, id, class, geometry, presentation and then the rest as written
+   */
+  sortAttributes: boolean
+  /**
+   * Indentation of the line the SVG starts on in its host document, added to every other line
+   */
+  baseIndent?: string
+}
+
+interface SvgElement {
+  type: 'element'
+  name: string
+  attributes: string[]
+  selfClosing: boolean
+  children: SvgNode[]
+  /**
+   * Source between the opening and closing tags
+   */
+  content: string
+}
+
+type SvgNode = SvgElement | { type: 'text' | 'markup', text: string }
+
+// Whitespace is meaningful inside them, so their content is kept as written
+const VERBATIM_ELEMENTS = new Set(['text', 'tspan', 'textPath', 'title', 'desc', 'style', 'script', 'foreignObject'])
+// Their content is not markup and may contain `<`
+const RAW_TEXT_ELEMENTS = new Set(['style', 'script'])
+
+const GEOMETRY_ATTRIBUTES = [
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'fr',
+  'width', 'height', 'viewBox', 'preserveAspectRatio', 'd', 'points', 'pathLength', 'offset',
+  'href', 'xlink:href', 'transform', 'gradientUnits', 'gradientTransform',
+  'patternUnits', 'patternContentUnits', 'patternTransform', 'clipPathUnits', 'maskUnits', 'maskContentUnits'
+].map(toAttributeKey)
+
+const PRESENTATION_ATTRIBUTES = [
+  'fill', 'fill-rule', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-linecap', 'stroke-linejoin',
+  'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset', 'stroke-opacity', 'opacity', 'color',
+  'stop-color', 'stop-opacity', 'clip-path', 'clip-rule', 'mask', 'filter', 'marker-start', 'marker-mid', 'marker-end',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline',
+  'vector-effect', 'shape-rendering', 'visibility', 'display', 'style'
+].map(toAttributeKey)
+
+const TAG_NAME = /<([^\s/>]+)/y
+const ATTRIBUTE = /\s*([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|((?:[^\s/>]|\/(?!>))+)))?/y
+const WHITESPACE = /\s*/y
+const CLOSING_TAG = /<\/([^\s>]+)\s*>/y
+// The doctype may declare entities between brackets
+const DOCTYPE = /<![^[>]*(?:\[[\s\S]*?\])?\s*>/y
+
+// Decide whether and how many times the element is rendered, so they read first
+const RENDERING_ATTRIBUTE = /^(?:v-for|v-if|v-else-if|v-else|v-show|key|ref)$/
+
+// Spreads and expressions written in tag position: attributes are never moved across them, later ones override earlier ones
+const ORDER_BARRIER = /^(?:data-spread-\d+|data-jsx-\d+|v-bind)$/
+
+/**
+ * Compares `stroke-width`, `strokeWidth` and `xlink:href`, `xlinkHref` alike
+ */
+function toAttributeKey (name: string): string {
+  return name.toLowerCase().replace(/[-:]/g, '')
+}
+
+function getAttributeName (attribute: string): string {
+  const name = getSourceAttributeName(attribute.match(/^[^\s=]+/)?.[0] ?? attribute)
+  // Bindings are ordered like the attribute they set: `:width`, `v-bind:width`, `bind:width`, `[attr.width]`
+  return name.replace(/^(?::|v-bind:|bind:|\[(?:attr\.)?)/, '').replace(/\]$/, '')
+}
+
+function getAttributeRank (attribute: string): number {
+  const name = getAttributeName(attribute)
+  const key = toAttributeKey(name)
+
+  if (name === 'xmlns' || name.startsWith('xmlns:')) {
+    return 0
+  }
+  if (RENDERING_ATTRIBUTE.test(name)) {
+    return 1
+  }
+  if (key === 'id') {
+    return 2
+  }
+  if (key === 'class' || key === 'classname') {
+    return 3
+  }
+
+  const geometry = GEOMETRY_ATTRIBUTES.indexOf(key)
+  if (geometry !== -1) {
+    return 100 + geometry
+  }
+
+  const presentation = PRESENTATION_ATTRIBUTES.indexOf(key)
+  if (presentation !== -1) {
+    return 200 + presentation
+  }
+
+  return 300
+}
+
+/**
+ * Orders attributes canonically. The sort is stable, so attributes of the same rank keep their order
+ */
+function sortAttributes (attributes: string[]): string[] {
+  const sorted: string[] = []
+  let run: string[] = []
+
+  const flush = () => {
+    sorted.push(...run.sort((a, b) => getAttributeRank(a) - getAttributeRank(b)))
+    run = []
+  }
+
+  for (const attribute of attributes) {
+    if (ORDER_BARRIER.test(getAttributeName(attribute))) {
+      flush()
+      sorted.push(attribute)
+    } else {
+      run.push(attribute)
+    }
+  }
+  flush()
+
+  return sorted
+}
+
+function matchAt (pattern: RegExp, svg: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index
+  return pattern.exec(svg)
+}
+
+function findEnd (svg: string, terminator: string, start: number): number {
+  const index = svg.indexOf(terminator, start)
+  if (index === -1) {
+    throw new Error(`Missing "${terminator}" after offset ${start}`)
+  }
+  return index + terminator.length
+}
+
+/**
+ * Reads the attributes of an opening tag, normalized to `name="value"` with the original quotes
+ */
+function parseTag (svg: string, start: number): { element: SvgElement, end: number } {
+  const name = matchAt(TAG_NAME, svg, start)?.[1]
+  if (!name) {
+    throw new Error(`Invalid tag at offset ${start}`)
+  }
+
+  const element: SvgElement = { type: 'element', name, attributes: [], selfClosing: false, children: [], content: '' }
+  let i = start + name.length + 1
+
+  while (i < svg.length) {
+    i += matchAt(WHITESPACE, svg, i)![0].length
+
+    if (svg.startsWith('/>', i)) {
+      element.selfClosing = true
+      return { element, end: i + 2 }
+    }
+    if (svg[i] === '>') {
+      return { element, end: i + 1 }
+    }
+
+    const match = matchAt(ATTRIBUTE, svg, i)
+    if (!match) {
+      throw new Error(`Invalid attribute at offset ${i}`)
+    }
+
+    const [raw, attributeName, doubleQuoted, singleQuoted, unquoted] = match
+    if (doubleQuoted !== undefined) {
+      element.attributes.push(`${attributeName}="${doubleQuoted}"`)
+    } else if (singleQuoted !== undefined) {
+      element.attributes.push(`${attributeName}='${singleQuoted}'`)
+    } else if (unquoted !== undefined) {
+      element.attributes.push(`${attributeName}="${unquoted}"`)
+    } else {
+      element.attributes.push(attributeName)
+    }
+    i += raw.length
+  }
+
+  throw new Error(`Unclosed tag <${name}>`)
+}
+
+function parseMarkup (svg: string): SvgNode[] {
+  const root: SvgElement = { type: 'element', name: '', attributes: [], selfClosing: false, children: [], content: '' }
+  const stack: Array<{ element: SvgElement, contentStart: number }> = [{ element: root, contentStart: 0 }]
+  let i = 0
+
+  while (i < svg.length) {
+    const { element: parent } = stack[stack.length - 1]
+
+    if (svg[i] !== '<') {
+      const end = svg.indexOf('<', i)
+      parent.children.push({ type: 'text', text: svg.slice(i, end === -1 ? svg.length : end) })
+      i = end === -1 ? svg.length : end
+      continue
+    }
+
+    let markupEnd: number | undefined
+    if (svg.startsWith('<!--', i)) {
+      markupEnd = findEnd(svg, '-->', i + 4)
+    } else if (svg.startsWith('<![CDATA[', i)) {
+      markupEnd = findEnd(svg, ']]>', i + 9)
+    } else if (svg.startsWith('<?', i)) {
+      markupEnd = findEnd(svg, '?>', i + 2)
+    } else if (svg.startsWith('<!', i)) {
+      const doctype = matchAt(DOCTYPE, svg, i)
+      markupEnd = doctype ? i + doctype[0].length : findEnd(svg, '>', i)
+    }
+
+    if (markupEnd !== undefined) {
+      parent.children.push({ type: 'markup', text: svg.slice(i, markupEnd) })
+      i = markupEnd
+      continue
+    }
+
+    if (svg.startsWith('</', i)) {
+      const closing = matchAt(CLOSING_TAG, svg, i)
+      const open = stack[stack.length - 1]
+      if (!closing || stack.length === 1 || closing[1] !== open.element.name) {
+        throw new Error(`Unexpected closing tag at offset ${i}`)
+      }
+
+      open.element.content = svg.slice(open.contentStart, i)
+      stack.pop()
+      i += closing[0].length
+      continue
+    }
+
+    const { element, end } = parseTag(svg, i)
+    parent.children.push(element)
+    i = end
+
+    if (element.selfClosing) {
+      continue
+    }
+
+    if (RAW_TEXT_ELEMENTS.has(element.name)) {
+      const closingStart = svg.indexOf(`</${element.name}`, i)
+      if (closingStart === -1) {
+        throw new Error(`Unclosed tag <${element.name}>`)
+      }
+      element.content = svg.slice(i, closingStart)
+      i = findEnd(svg, '>', closingStart)
+      continue
+    }
+
+    stack.push({ element, contentStart: i })
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].element.name}>`)
+  }
+
+  return root.children
+}
+
+function printElement (element: SvgElement, depth: number, options: SvgFormatOptions): string[] {
+  const indentation = options.indent.repeat(depth)
+  const attributes = options.sortAttributes ? sortAttributes(element.attributes) : element.attributes
+  const verbatim = VERBATIM_ELEMENTS.has(element.name)
+  const children = element.children.filter(child => child.type !== 'text' || child.text.trim())
+
+  // What follows the opening tag on its last line
+  let tail = ''
+  if (element.selfClosing) {
+    tail = ' />'
+  } else if (verbatim || children.length === 0) {
+    tail = `>${verbatim ? element.content : ''}</${element.name}>`
+  } else {
+    tail = '>'
+  }
+
+  const singleLine = `${indentation}<${element.name}${attributes.map(attribute => ` ${attribute}`).join('')}${tail}`
+  const wrap = options.wrapAttributes === 'always'
+    ? attributes.length > 1
+    : options.wrapAttributes === 'auto' && attributes.length > 0 &&
+      (options.baseIndent ?? '').length + singleLine.split('\n')[0].length > options.maxLineLength
+
+  const lines = wrap
+    ? [
+        `${indentation}<${element.name}`,
+        ...attributes.map(attribute => `${indentation}${options.indent}${attribute}`),
+        `${indentation}${tail.trimStart()}`
+      ]
+    : [singleLine]
+
+  if (tail !== '>') {
+    return lines
+  }
+
+  for (const child of children) {
+    lines.push(...printNode(child, depth + 1, options))
+  }
+  lines.push(`${indentation}</${element.name}>`)
+
+  return lines
+}
+
+function printNode (node: SvgNode, depth: number, options: SvgFormatOptions): string[] {
+  if (node.type === 'element') {
+    return printElement(node, depth, options)
+  }
+
+  // Outside text elements text is not rendered, it is only there for expressions and template tags
+  return [`${options.indent.repeat(depth)}${node.text.trim()}`]
+}
+
+/**
+ * Pretty-prints SVG markup: one element per line, indented by nesting, with the attributes wrapped
+ * and sorted as configured. The content of text, style and script elements is kept as written.
+ * Throws if the markup is not well formed
+ */
+export function formatSvg (svg: string, options: SvgFormatOptions): string {
+  const lines = parseMarkup(svg)
+    .filter(node => node.type !== 'text' || node.text.trim())
+    .flatMap(node => printNode(node, 0, options))
+
+  const formatted = lines.join('\n')
+  return options.baseIndent ? formatted.replace(/\n(?=[^\n])/g, `\n${options.baseIndent}`) : formatted
+}
+
+function isOrderBarrier (attribute: string): boolean {
+  return ORDER_BARRIER.test(getAttributeName(attribute))
+}
+
+/**
+ * Opening tags with a spread or an expression in tag position, in document order
+ */
+function findBarrierTags (svg: string): Array<{ start: number, end: number, element: SvgElement }> {
+  const tags: Array<{ start: number, end: number, element: SvgElement }> = []
+  const tagStart = /<(?=[^\s!?/>])/g
+  let match
+
+  while ((match = tagStart.exec(svg)) !== null) {
+    let tag
+    try {
+      tag = parseTag(svg, match.index)
+    } catch {
+      continue
+    }
+
+    if (tag.element.attributes.some(isOrderBarrier)) {
+      tags.push({ start: match.index, ...tag })
+    }
+    tagStart.lastIndex = tag.end
+  }
+
+  return tags
+}
+
+/**
+ * Moves attributes back to their side of the spreads and expressions they were written around,
+ * keeping the order of `optimized` within each side. Attributes `original` does not have follow the one before them
+ */
+function restoreBarrierOrder (original: string[], optimized: string[]): string[] {
+  const positions = new Map<string, number>()
+  let position = 0
+
+  for (const attribute of original) {
+    if (isOrderBarrier(attribute)) {
+      positions.set(attribute, ++position)
+      position++
+    } else {
+      positions.set(attribute.match(/^[^\s=]+/)?.[0] ?? attribute, position)
+    }
+  }
+
+  let previous = 0
+  return optimized
+    .map(attribute => {
+      previous = positions.get(isOrderBarrier(attribute) ? attribute : attribute.match(/^[^\s=]+/)?.[0] ?? attribute) ?? previous
+      return { attribute, position: previous }
+    })
+    .sort((a, b) => a.position - b.position)
+    .map(({ attribute }) => attribute)
+}
+
+/**
+ * Undoes the attribute sorting of an optimizer across spreads and expressions in tag position:
+ * `<svg width={size} {...props}>` must not become `<svg {...props} width={size}>`, which lets the props win.
+ * Both SVGs are prepared ones, as given to and returned by SVGO
+ */
+export function restoreAttributeOrder (preparedSvg: string, optimizedSvg: string): string {
+  const originals = new Map<string, SvgElement[]>()
+  for (const { element } of findBarrierTags(preparedSvg)) {
+    const key = element.attributes.find(isOrderBarrier)!
+    originals.set(key, [...(originals.get(key) ?? []), element])
+  }
+
+  let result = ''
+  let index = 0
+
+  for (const { start, end, element } of findBarrierTags(optimizedSvg)) {
+    const original = originals.get(element.attributes.find(isOrderBarrier)!)?.shift()
+    if (!original) {
+      continue
+    }
+
+    const attributes = restoreBarrierOrder(original.attributes, element.attributes)
+    if (attributes.every((attribute, i) => attribute === element.attributes[i])) {
+      continue
+    }
+
+    result += `${optimizedSvg.slice(index, start)}<${element.name}${attributes.map(attribute => ` ${attribute}`).join('')}${element.selfClosing ? '/>' : '>'}`
+    index = end
+  }
+
+  return result + optimizedSvg.slice(index)
+}
+
+/**
+ * Formats an SVG embedded in a host document (JSX, Vue, Svelte, Astro, templates...). The markup goes through
+ * the same conversion as inline optimization, so expressions and directives are kept untouched
+ */
+export function formatInlineSvg (svgContent: string, options: SvgFormatOptions, transformOptions: OptimizationOptions): string {
+  const { baseIndent } = options
+  // The formatter indents every line but the first by the host indentation again
+  const dedented = baseIndent
+    ? svgContent.split('\n').map((line, index) => index > 0 && line.startsWith(baseIndent) ? line.slice(baseIndent.length) : line).join('\n')
+    : svgContent
+
+  const { preparedSvg, wasJsx } = prepareForOptimization(dedented, transformOptions)
+  return finalizeAfterOptimization(formatSvg(preparedSvg, options), wasJsx, transformOptions)
+}
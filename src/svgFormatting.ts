@@ -0,0 +1,147 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import { AttributeWrap, formatInlineSvg, formatSvg, SvgFormatOptions } from './svgFormatter'
+import { getDocumentTransformOptions } from './projectDialect'
+import { InlineSvgArgs, resolveInlineSvgTarget } from './svgCodeActions'
+import { getMinimalTextEdits } from './textEdits'
+import type { InlineLayout } from './svgOptimizer'
+
+function getIndent (formatting: vscode.FormattingOptions): string {
+  return formatting.insertSpaces ? ' '.repeat(formatting.tabSize) : '\t'
+}
+
+function getFormatOptions (formatting: vscode.FormattingOptions): SvgFormatOptions {
+  const config = vscode.workspace.getConfiguration('betterSvg.format')
+
+  return {
+    indent: getIndent(formatting),
+    wrapAttributes: config.get<AttributeWrap>('wrapAttributes', 'auto'),
+    maxLineLength: config.get<number>('maxLineLength', 100),
+    sortAttributes: config.get<boolean>('sortAttributes', false)
+  }
+}
+
+/**
+ * Indentation of the editor showing the document, like the format commands of VS Code use
+ */
+function getEditorFormattingOptions (document: vscode.TextDocument): vscode.FormattingOptions {
+  const editor = vscode.window.visibleTextEditors.find(visible => visible.document === document)
+  const tabSize = editor?.options.tabSize
+
+  return {
+    tabSize: typeof tabSize === 'number' ? tabSize : 2,
+    insertSpaces: editor?.options.insertSpaces !== false
+  }
+}
+
+function getLineIndentation (document: vscode.TextDocument, position: vscode.Position): string {
+  const line = document.lineAt(position.line)
+  return line.text.slice(0, line.firstNonWhitespaceCharacterIndex)
+}
+
+/**
+ * Layout of an optimized inline SVG starting at the position, from `betterSvg.inlineLayout`.
+ * Undefined to keep the single line SVGO writes
+ */
+export function getInlineLayout (document: vscode.TextDocument, position: vscode.Position): InlineLayout | undefined {
+  if (vscode.workspace.getConfiguration('betterSvg').get<string>('inlineLayout', 'compact') !== 'indented') {
+    return undefined
+  }
+
+  return {
+    indent: getIndent(getEditorFormattingOptions(document)),
+    baseIndent: getLineIndentation(document, position)
+  }
+}
+
+/**
+ * Formats the text of a range with `\n` line endings, and writes it back with the ones of the document
+ */
+function formatRange (document: vscode.TextDocument, range: vscode.Range, format: (text: string) => string): vscode.TextEdit[] {
+  const formatted = format(document.getText(range).replace(/\r\n/g, '\n'))
+  const newText = document.eol === vscode.EndOfLine.CRLF ? formatted.replace(/\n/g, '\r\n') : formatted
+  return getMinimalTextEdits(document, range, newText)
+}
+
+/**
+ * Edits that format a whole SVG file, keeping its final newline
+ */
+export function getSvgFormattingEdits (document: vscode.TextDocument, formatting: vscode.FormattingOptions): vscode.TextEdit[] {
+  const range = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length))
+  const options = getFormatOptions(formatting)
+
+  return formatRange(document, range, text => formatSvg(text, options) + (/\n\s*$/.test(text) ? '\n' : ''))
+}
+
+/**
+ * Edits that format an inline SVG, aligned with the line it starts on
+ */
+export function getInlineSvgFormattingEdits (document: vscode.TextDocument, range: vscode.Range, formatting: vscode.FormattingOptions): vscode.TextEdit[] {
+  const options = { ...getFormatOptions(formatting), baseIndent: getLineIndentation(document, range.start) }
+
+  return formatRange(document, range, text => formatInlineSvg(text, options, getDocumentTransformOptions(document)))
+}
+
+/**
+ * Formats SVG files. Markup that is not well formed is left as is
+ */
+export class SvgFormattingProvider implements vscode.DocumentFormattingEditProvider {
+  provideDocumentFormattingEdits (document: vscode.TextDocument, options: vscode.FormattingOptions): vscode.TextEdit[] {
+    try {
+      return getSvgFormattingEdits(document, options)
+    } catch {
+      return []
+    }
+  }
+}
+
+/**
+ * Formats the SVG file of the active editor, or the given inline SVG (the one under the cursor by default)
+ */
+export async function formatSvgCommand (args?: InlineSvgArgs) {
+  const editor = vscode.window.activeTextEditor
+  let document: vscode.TextDocument
+  let edits: vscode.TextEdit[]
+
+  try {
+    if (!args?.uri && editor?.document.fileName.toLowerCase().endsWith('.svg')) {
+      document = editor.document
+      edits = getSvgFormattingEdits(document, getEditorFormattingOptions(document))
+    } else {
+      const target = await resolveInlineSvgTarget(args)
+      if (!target) {
+        vscode.window.showErrorMessage('No SVG found at cursor position')
+        return
+      }
+
+      document = target.document
+      edits = getInlineSvgFormattingEdits(document, target.range, getEditorFormattingOptions(document))
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to format SVG: ${error}`)
+    return
+  }
+
+  if (edits.length === 0) {
+    return
+  }
+
+  const edit = new vscode.WorkspaceEdit()
+  edit.set(document.uri, edits)
+  await vscode.workspace.applyEdit(edit)
+}
@@ -15,7 +15,10 @@
  */
 
 import * as vscode from 'vscode'
-import { convertJsxToSvg } from './svgTransform'
+import { convertJsxToSvg, OptimizationOptions } from './svgTransform'
+import { getDocumentTransformOptions, svgLocator } from './projectDialect'
+import { getDialectOptions, SvgDialect } from './dialects'
+import { LocatedSvgBlock, moveThroughEdits } from './svgLocator'
 
 interface SvgCacheEntry {
   dataUri: string
@@ -44,78 +47,71 @@ export class SvgHoverProvider implements vscode.HoverProvider {
       return null
     }
 
-    const text = document.getText()
-    const svgRegex = /<svg[\s\S]*?>[\s\S]*?<\/svg>/g
-    let match
+    const block = svgLocator.findBlockAt(document, document.offsetAt(position))
+    if (!block) {
+      return null
+    }
 
-    while ((match = svgRegex.exec(text))) {
-      const startPos = document.positionAt(match.index)
-      const endPos = document.positionAt(match.index + match[0].length)
-      const range = new vscode.Range(startPos, endPos)
+    const startPos = document.positionAt(block.start)
+    const endPos = document.positionAt(block.end)
+    const range = new vscode.Range(startPos, endPos)
 
-      if (range.contains(position)) {
-        const originalSvg = match[0]
-        const sizeBytes = Buffer.byteLength(originalSvg, 'utf8')
+    const originalSvg = block.content
+    const sizeBytes = Buffer.byteLength(originalSvg, 'utf8')
 
-        // Check cache
-        const cacheKey = `${document.uri.toString()}:${match.index}:${originalSvg.length}`
-        const cached = this.cache.get(cacheKey)
-        const now = Date.now()
+    // Check cache
+    const cacheKey = `${document.uri.toString()}:${block.start}:${originalSvg.length}`
+    const cached = this.cache.get(cacheKey)
+    const now = Date.now()
 
-        if (cached && (now - cached.timestamp) < this.cacheMaxAge) {
-          return this.createHoverFromCache(cached, range, document)
-        }
+    if (cached && (now - cached.timestamp) < this.cacheMaxAge) {
+      return this.createHoverFromCache(cached, range, document)
+    }
 
-        let svgContent = originalSvg
-        const options = {
-          useCamelCase: ['javascriptreact', 'typescriptreact'].includes(document.languageId)
-        }
+    let svgContent = originalSvg
+    const options = getDocumentTransformOptions(document)
 
-        // Convert JSX syntax to valid SVG
-        svgContent = convertJsxToSvg(svgContent, options)
+    // Convert JSX syntax to valid SVG
+    svgContent = convertJsxToSvg(svgContent, options)
 
-        // Add xmlns if missing (do this early so SVG is valid)
-        // Check ONLY inside the opening <svg ... > tag
-        const svgOpenTagMatch = svgContent.match(/<svg[^>]*>/i)
-        const hasXmlnsInRoot = svgOpenTagMatch && /xmlns\s*=\s*["']/.test(svgOpenTagMatch[0])
-        
-        if (!hasXmlnsInRoot) {
-          svgContent = svgContent.replace(/<svg/, '<svg xmlns="http://www.w3.org/2000/svg"')
-        }
+    // Add xmlns if missing (do this early so SVG is valid)
+    // Check ONLY inside the opening <svg ... > tag
+    const svgOpenTagMatch = svgContent.match(/<svg[^>]*>/i)
+    const hasXmlnsInRoot = svgOpenTagMatch && /xmlns\s*=\s*["']/.test(svgOpenTagMatch[0])
 
-        // Replace currentColor based on theme
-        const isDarkTheme = vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark ||
-                            vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.HighContrast
-        const contrastColor = isDarkTheme ? '#ffffff' : '#000000'
-        svgContent = svgContent.replace(/currentColor/g, contrastColor)
+    if (!hasXmlnsInRoot) {
+      svgContent = svgContent.replace(/<svg/, '<svg xmlns="http://www.w3.org/2000/svg"')
+    }
 
-        // Extract stroke/fill from parent SVG and propagate to children
-        svgContent = this.propagateStrokeAndFill(svgContent)
+    // Replace currentColor based on theme
+    const isDarkTheme = vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark ||
+                        vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.HighContrast
+    const contrastColor = isDarkTheme ? '#ffffff' : '#000000'
+    svgContent = svgContent.replace(/currentColor/g, contrastColor)
 
-        // Ensure minimum size for visibility in hover
-        svgContent = this.ensureMinimumSize(svgContent, 128)
+    // Extract stroke/fill from parent SVG and propagate to children
+    svgContent = this.propagateStrokeAndFill(svgContent)
 
-        // Validate that the SVG is likely to be renderable. 
-        // If it still contains JSX-like braces (outside of <style> tags), 
-        // it's likely to show a broken image, so we'd rather show nothing.
-        const validationContent = svgContent.replace(/<style[\s\S]*?<\/style>/gi, '')
-        if (validationContent.includes('{') || validationContent.includes('}')) {
-          return null
-        }
+    // Ensure minimum size for visibility in hover
+    svgContent = this.ensureMinimumSize(svgContent, 128)
 
-        // Encode SVG for data URI - use base64 for better compatibility
-        const base64Svg = Buffer.from(svgContent).toString('base64')
-        const dataUri = `data:image/svg+xml;base64,${base64Svg}`
+    // Validate that the SVG is likely to be renderable.
+    // If it still contains JSX-like braces (outside of <style> tags),
+    // it's likely to show a broken image, so we'd rather show nothing.
+    const validationContent = svgContent.replace(/<style[\s\S]*?<\/style>/gi, '')
+    if (validationContent.includes('{') || validationContent.includes('}')) {
+      return null
+    }
 
-        // Update cache
-        this.cache.set(cacheKey, { dataUri, sizeBytes, timestamp: now })
+    // Encode SVG for data URI - use base64 for better compatibility
+    const base64Svg = Buffer.from(svgContent).toString('base64')
+    const dataUri = `data:image/svg+xml;base64,${base64Svg}`
 
-        const commandArgs = this.buildHoverCommandArgs(document, range)
-        return this.createHover(dataUri, sizeBytes, range, commandArgs)
-      }
-    }
+    // Update cache
+    this.cache.set(cacheKey, { dataUri, sizeBytes, timestamp: now })
 
-    return null
+    const commandArgs = this.buildHoverCommandArgs(document, range)
+    return this.createHover(dataUri, sizeBytes, range, commandArgs)
   }
 
   private createHover (
@@ -252,96 +248,236 @@ export class SvgHoverProvider implements vscode.HoverProvider {
   }
 }
 
+interface GutterIcon {
+  start: number
+  end: number
+  dialect: SvgDialect
+  /**
+   * Undefined when the SVG does not render on its own
+   */
+  dataUri: string | undefined
+}
+
+interface SharedDecorationType {
+  type: vscode.TextEditorDecorationType
+  documents: Set<string>
+}
+
+const MAX_RENDERED_ICONS = 1000
+
 export class SvgGutterPreview {
-  private decorationTypes: Map<string, vscode.TextEditorDecorationType[]> = new Map()
+  // Decoration types by data URI, shared by the documents showing the same icon
+  private decorationTypes: Map<string, SharedDecorationType> = new Map()
+  // Icons of each document, moved along with its edits
+  private icons: Map<string, GutterIcon[]> = new Map()
+  // Data URIs of the icons each document shows
+  private documentIcons: Map<string, Set<string>> = new Map()
+  // Data URIs by dialect and SVG content, for the current theme
+  private rendered: Map<string, string | undefined> = new Map()
+  private themeKind = vscode.window.activeColorTheme.kind
+  private timeouts: Map<string, NodeJS.Timeout> = new Map()
 
   public updateDecorations (editor: vscode.TextEditor) {
     if (!editor) {
       return
     }
 
-    const docUri = editor.document.uri.toString()
-
-    // Dispose existing decorations for this document
-    this.disposeDecorationsForUri(docUri)
+    const document = editor.document
+    const docUri = document.uri.toString()
+    const editors = vscode.window.visibleTextEditors.filter(visible => visible.document === document)
+    if (!editors.includes(editor)) {
+      editors.push(editor)
+    }
 
     // Check if gutter preview is enabled in settings
     const config = vscode.workspace.getConfiguration('betterSvg')
     const showGutterPreview = config.get<boolean>('showGutterPreview', true)
     if (!showGutterPreview) {
+      this.icons.delete(docUri)
+      this.showIcons(document, editors, [])
       return
     }
 
-    const text = editor.document.getText()
-    const svgRegex = /<svg[\s\S]*?>[\s\S]*?<\/svg>/g
-    const newDecorationTypes: vscode.TextEditorDecorationType[] = []
+    // Icons are drawn with the colors of the theme
+    const themeKind = vscode.window.activeColorTheme.kind
+    if (themeKind !== this.themeKind) {
+      this.themeKind = themeKind
+      this.rendered.clear()
+      this.icons.clear()
+    }
 
-    let match
-    while ((match = svgRegex.exec(text))) {
-      const startPos = editor.document.positionAt(match.index)
-      // Use a zero-length range at the start of the SVG to ensure only one gutter icon is shown
-      const range = new vscode.Range(startPos, startPos)
+    // Only the SVGs the edits touched are rendered again, the others were moved along with them
+    const previous = this.icons.get(docUri) ?? []
+    let index = 0
+    const icons = svgLocator.getBlocks(document).map(block => {
+      while (index < previous.length && previous[index].start < block.start) {
+        index++
+      }
 
-      let svgContent = match[0]
-      const options = {
-        useCamelCase: ['javascriptreact', 'typescriptreact'].includes(editor.document.languageId)
+      const icon = previous[index]
+      if (icon && icon.start === block.start && icon.end === block.end && icon.dialect === block.dialect) {
+        return icon
       }
 
-      // Convert JSX syntax to valid SVG
-      svgContent = convertJsxToSvg(svgContent, options)
+      return { start: block.start, end: block.end, dialect: block.dialect, dataUri: this.render(block) }
+    })
 
-      // Add xmlns if missing (do this early so SVG is valid)
-      // Check ONLY inside the opening <svg ... > tag
-      const svgOpenTagMatch = svgContent.match(/<svg[^>]*>/i)
-      const hasXmlnsInRoot = svgOpenTagMatch && /xmlns\s*=\s*["']/.test(svgOpenTagMatch[0])
-      
-      if (!hasXmlnsInRoot) {
-        svgContent = svgContent.replace(/<svg/, '<svg xmlns="http://www.w3.org/2000/svg"')
-      }
+    this.icons.set(docUri, icons)
+    this.showIcons(document, editors, icons)
+  }
 
-      // Replace currentColor based on theme
-      const isDarkTheme = vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark ||
-                          vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.HighContrast
+  /**
+   * Moves the icons of the document along with the edits, and updates the ones they touched once typing pauses
+   */
+  public onDidChangeTextDocument (event: vscode.TextDocumentChangeEvent) {
+    if (event.contentChanges.length === 0) {
+      return
+    }
 
-      const contrastColor = isDarkTheme ? '#ffffff' : '#000000'
+    const docUri = event.document.uri.toString()
+    const icons = this.icons.get(docUri)
+    if (icons) {
+      this.icons.set(docUri, moveThroughEdits(icons, event.contentChanges))
+    }
 
-      svgContent = svgContent.replace(/currentColor/g, contrastColor)
+    clearTimeout(this.timeouts.get(docUri))
+    this.timeouts.set(docUri, setTimeout(() => {
+      this.timeouts.delete(docUri)
+      const editor = vscode.window.visibleTextEditors.find(visible => visible.document === event.document)
+      if (editor) {
+        this.updateDecorations(editor)
+      }
+    }, 500))
+  }
 
-      // Propagate stroke/fill from parent to children (after currentColor is resolved)
-      svgContent = this.propagateStrokeAndFill(svgContent)
+  public deleteDocument (uri: vscode.Uri) {
+    const docUri = uri.toString()
+    clearTimeout(this.timeouts.get(docUri))
+    this.timeouts.delete(docUri)
+    this.icons.delete(docUri)
+    this.documentIcons.get(docUri)?.forEach(dataUri => this.releaseDecorationType(dataUri, docUri))
+    this.documentIcons.delete(docUri)
+  }
 
-      // Ensure minimum size for gutter icon
-      svgContent = this.ensureMinimumSize(svgContent, 16)
+  /**
+   * Sets the ranges of every icon of the document at once, one decoration type per distinct icon
+   */
+  private showIcons (document: vscode.TextDocument, editors: vscode.TextEditor[], icons: GutterIcon[]) {
+    const docUri = document.uri.toString()
+    const ranges = new Map<string, vscode.Range[]>()
 
-      // Validate that the SVG is likely to be renderable.
-      const validationContent = svgContent.replace(/<style[\s\S]*?<\/style>/gi, '')
-      if (validationContent.includes('{') || validationContent.includes('}')) {
+    for (const icon of icons) {
+      if (!icon.dataUri) {
         continue
       }
 
-      // Encode SVG content for data URI - use base64 for better compatibility
-      const base64Svg = Buffer.from(svgContent).toString('base64')
-      const dataUri = `data:image/svg+xml;base64,${base64Svg}`
+      // Use a zero-length range at the start of the SVG to ensure only one gutter icon is shown
+      const position = document.positionAt(icon.start)
+      const iconRanges = ranges.get(icon.dataUri)
+      if (iconRanges) {
+        iconRanges.push(new vscode.Range(position, position))
+      } else {
+        ranges.set(icon.dataUri, [new vscode.Range(position, position)])
+      }
+    }
 
-      const decorationType = vscode.window.createTextEditorDecorationType({
-        gutterIconPath: vscode.Uri.parse(dataUri),
-        gutterIconSize: 'contain'
-      })
+    for (const [dataUri, iconRanges] of ranges) {
+      const type = this.acquireDecorationType(dataUri, docUri)
+      editors.forEach(editor => editor.setDecorations(type, iconRanges))
+    }
 
-      newDecorationTypes.push(decorationType)
+    for (const dataUri of this.documentIcons.get(docUri) ?? []) {
+      const shared = this.decorationTypes.get(dataUri)
+      if (shared && !ranges.has(dataUri)) {
+        editors.forEach(editor => editor.setDecorations(shared.type, []))
+        this.releaseDecorationType(dataUri, docUri)
+      }
+    }
 
-      editor.setDecorations(decorationType, [{ range }])
+    this.documentIcons.set(docUri, new Set(ranges.keys()))
+  }
+
+  private acquireDecorationType (dataUri: string, docUri: string): vscode.TextEditorDecorationType {
+    let shared = this.decorationTypes.get(dataUri)
+    if (!shared) {
+      shared = {
+        type: vscode.window.createTextEditorDecorationType({
+          gutterIconPath: vscode.Uri.parse(dataUri),
+          gutterIconSize: 'contain'
+        }),
+        documents: new Set()
+      }
+      this.decorationTypes.set(dataUri, shared)
+    }
+
+    shared.documents.add(docUri)
+    return shared.type
+  }
+
+  private releaseDecorationType (dataUri: string, docUri: string) {
+    const shared = this.decorationTypes.get(dataUri)
+    if (!shared) {
+      return
     }
 
-    this.decorationTypes.set(docUri, newDecorationTypes)
+    shared.documents.delete(docUri)
+    if (shared.documents.size === 0) {
+      shared.type.dispose()
+      this.decorationTypes.delete(dataUri)
+    }
   }
 
-  private disposeDecorationsForUri (uri: string) {
-    const types = this.decorationTypes.get(uri)
-    if (types) {
-      types.forEach(t => t.dispose())
-      this.decorationTypes.delete(uri)
+  private render (block: LocatedSvgBlock): string | undefined {
+    const key = `${block.dialect}:${block.content}`
+    if (this.rendered.has(key)) {
+      return this.rendered.get(key)
     }
+
+    const dataUri = this.renderIcon(block.content, getDialectOptions(block.dialect))
+    if (this.rendered.size >= MAX_RENDERED_ICONS) {
+      const [oldest] = this.rendered.keys()
+      this.rendered.delete(oldest)
+    }
+    this.rendered.set(key, dataUri)
+    return dataUri
+  }
+
+  private renderIcon (content: string, options: OptimizationOptions): string | undefined {
+    // Convert JSX syntax to valid SVG
+    let svgContent = convertJsxToSvg(content, options)
+
+    // Add xmlns if missing (do this early so SVG is valid)
+    // Check ONLY inside the opening <svg ... > tag
+    const svgOpenTagMatch = svgContent.match(/<svg[^>]*>/i)
+    const hasXmlnsInRoot = svgOpenTagMatch && /xmlns\s*=\s*["']/.test(svgOpenTagMatch[0])
+
+    if (!hasXmlnsInRoot) {
+      svgContent = svgContent.replace(/<svg/, '<svg xmlns="http://www.w3.org/2000/svg"')
+    }
+
+    // Replace currentColor based on theme
+    const isDarkTheme = this.themeKind === vscode.ColorThemeKind.Dark ||
+                        this.themeKind === vscode.ColorThemeKind.HighContrast
+
+    const contrastColor = isDarkTheme ? '#ffffff' : '#000000'
+
+    svgContent = svgContent.replace(/currentColor/g, contrastColor)
+
+    // Propagate stroke/fill from parent to children (after currentColor is resolved)
+    svgContent = this.propagateStrokeAndFill(svgContent)
+
+    // Ensure minimum size for gutter icon
+    svgContent = this.ensureMinimumSize(svgContent, 16)
+
+    // Validate that the SVG is likely to be renderable.
+    const validationContent = svgContent.replace(/<style[\s\S]*?<\/style>/gi, '')
+    if (validationContent.includes('{') || validationContent.includes('}')) {
+      return undefined
+    }
+
+    // Encode SVG content for data URI - use base64 for better compatibility
+    const base64Svg = Buffer.from(svgContent).toString('base64')
+    return `data:image/svg+xml;base64,${base64Svg}`
   }
 
   private propagateStrokeAndFill (svgContent: string): string {
@@ -406,7 +542,11 @@ export class SvgGutterPreview {
   }
 
   public dispose () {
-    this.decorationTypes.forEach(types => types.forEach(t => t.dispose()))
+    this.timeouts.forEach(timeout => clearTimeout(timeout))
+    this.timeouts.clear()
+    this.decorationTypes.forEach(shared => shared.type.dispose())
     this.decorationTypes.clear()
+    this.icons.clear()
+    this.documentIcons.clear()
   }
 }
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { collectIds, lintDuplicateIdsAcrossBlocks, prefixSvgIds } from './svgIds'
+import { findSvgBlocks } from './svgLocator'
+
+describe('SVG ids', () => {
+    it('should collect literal ids only', () => {
+        const ids = collectIds('<svg><g id="a"/><g id={dynamic}/><g :id="bound"/></svg>')
+        assert.deepStrictEqual(ids.map(occurrence => occurrence.id), ['a'])
+    })
+
+    it('should prefix ids and every reference to them', () => {
+        const input = '<svg aria-labelledby="t desc"><title id="t">T</title><defs><linearGradient id="a"/><path id="p"/></defs>' +
+            '<path fill="url(#a)" style="stroke: url(\'#a\')"/><use href="#p"/><use xlink:href="#p"/><use href="#external"/></svg>'
+        const expected = '<svg aria-labelledby="x-t desc"><title id="x-t">T</title><defs><linearGradient id="x-a"/><path id="x-p"/></defs>' +
+            '<path fill="url(#x-a)" style="stroke: url(\'#x-a\')"/><use href="#x-p"/><use xlink:href="#x-p"/><use href="#external"/></svg>'
+        assert.strictEqual(prefixSvgIds(input, 'x-'), expected)
+    })
+
+    it('should prefix JSX references', () => {
+        const input = '<svg><clipPath id="c"/><g clipPath="url(#c)"><use xlinkHref="#c"/></g></svg>'
+        assert.strictEqual(prefixSvgIds(input, 'icon-'), '<svg><clipPath id="icon-c"/><g clipPath="url(#icon-c)"><use xlinkHref="#icon-c"/></g></svg>')
+    })
+
+    it('should prefix id selectors of style elements', () => {
+        const input = '<svg><style>#a, .b > #a:hover { fill: #abc; stroke: url(#a) } @media (x) { #a { fill: #a } }</style><g id="a"/></svg>'
+        assert.strictEqual(
+            prefixSvgIds(input, 'x-'),
+            '<svg><style>#x-a, .b > #x-a:hover { fill: #abc; stroke: url(#x-a) } @media (x) { #x-a { fill: #a } }</style><g id="x-a"/></svg>'
+        )
+    })
+
+    it('should report ids shared by several SVGs', () => {
+        const text = '<div><svg><linearGradient id="paint0_linear"/><path fill="url(#paint0_linear)"/></svg>' +
+            '<svg><linearGradient id="paint0_linear"/><rect fill="url(#paint0_linear)"/></svg>' +
+            '<svg><g id="unique"/></svg></div>'
+        const issues = lintDuplicateIdsAcrossBlocks(text, findSvgBlocks(text), 'card-')
+
+        assert.strictEqual(issues.length, 2)
+        assert.ok(issues.every(issue => issue.rule === 'duplicate-ids-across-svgs'))
+        assert.strictEqual(text.slice(issues[1].start, issues[1].end), 'id="paint0_linear"')
+
+        const [fix] = issues[0].fixes ?? []
+        const fixed = [...fix.edits]
+            .sort((a, b) => b.start - a.start)
+            .reduce((result, edit) => result.slice(0, edit.start) + edit.newText + result.slice(edit.end), text)
+
+        assert.strictEqual(fixed, '<div><svg><linearGradient id="card-1-paint0_linear"/><path fill="url(#card-1-paint0_linear)"/></svg>' +
+            '<svg><linearGradient id="card-2-paint0_linear"/><rect fill="url(#card-2-paint0_linear)"/></svg>' +
+            '<svg><g id="unique"/></svg></div>')
+        assert.deepStrictEqual(lintDuplicateIdsAcrossBlocks(fixed, findSvgBlocks(fixed), 'card-'), [])
+    })
+
+    it('should not reuse prefixes already present in the document', () => {
+        const text = '<svg><g id="card-1-a"/><g id="a"/></svg><svg><g id="a"/></svg>'
+        const issues = lintDuplicateIdsAcrossBlocks(text, findSvgBlocks(text), 'card-')
+        const newTexts = issues[0].fixes?.[0].edits.map(edit => edit.newText)
+        assert.deepStrictEqual(newTexts, [
+            '<svg><g id="card-2-card-1-a"/><g id="card-2-a"/></svg>',
+            '<svg><g id="card-3-a"/></svg>'
+        ])
+    })
+})
@@ -0,0 +1,145 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { SvgLintIssue } from './svgLint'
+import type { SvgBlock } from './utils'
+
+export interface SvgIdOccurrence {
+  id: string
+  /**
+   * Offsets of the whole `id="..."` attribute
+   */
+  start: number
+  end: number
+}
+
+const ID_ATTRIBUTE = /(\sid\s*=\s*)(["'])([^"']+)\2/g
+
+/**
+ * Lists the literal `id` attributes of an SVG. Dynamic ids (`id={id}`, `:id="id"`) are ignored
+ */
+export function collectIds (svgContent: string): SvgIdOccurrence[] {
+  const ids: SvgIdOccurrence[] = []
+  let match
+
+  ID_ATTRIBUTE.lastIndex = 0
+  while ((match = ID_ATTRIBUTE.exec(svgContent)) !== null) {
+    ids.push({
+      id: match[3],
+      start: match.index + 1,
+      end: match.index + match[0].length
+    })
+  }
+
+  return ids
+}
+
+/**
+ * Prefixes every id of the SVG and rewrites the references to them:
+ * `url(#id)`, `href="#id"`, `xlink:href="#id"` (`xlinkHref` in JSX), `aria-labelledby`/`aria-describedby`
+ * and the `#id` selectors of `<style>` elements
+ */
+export function prefixSvgIds (svgContent: string, prefix: string): string {
+  const ids = new Set(collectIds(svgContent).map(occurrence => occurrence.id))
+  if (ids.size === 0) {
+    return svgContent
+  }
+
+  const rename = (id: string) => ids.has(id) ? `${prefix}${id}` : id
+
+  return svgContent
+    .replace(ID_ATTRIBUTE, (_match, name: string, quote: string, id: string) => `${name}${quote}${rename(id)}${quote}`)
+    .replace(/url\(\s*(['"]?)#([^'")\s]+)\1\s*\)/g, (_match, quote: string, id: string) => `url(${quote}#${rename(id)}${quote})`)
+    .replace(
+      /(\s(?:xlink:href|xlinkHref|href)\s*=\s*)(["'])#([^"']+)\2/g,
+      (_match, name: string, quote: string, id: string) => `${name}${quote}#${rename(id)}${quote}`
+    )
+    .replace(
+      /(\saria-(?:labelledby|describedby)\s*=\s*)(["'])([^"']+)\2/g,
+      (_match, name: string, quote: string, list: string) => `${name}${quote}${list.split(/(\s+)/).map(token => token.trim() ? rename(token) : token).join('')}${quote}`
+    )
+    .replace(
+      /(<style(?=[\s>])[^>]*>)([\s\S]*?)(<\/style\s*>)/g,
+      // Only selectors are followed by a `{` before any other brace, hex colors of declarations are kept
+      (_match, open: string, css: string, close: string) => `${open}${css.replace(/#([\w-]+)(?=[^{}]*\{)/g, (selector, id: string) => ids.has(id) ? `#${prefix}${id}` : selector)}${close}`
+    )
+}
+
+/**
+ * Finds ids shared by several SVG blocks of the same document, which make the browser
+ * resolve `url(#id)` against the wrong SVG. Offsets of the returned issues are relative to the document.
+ * The fix prefixes the ids of every block involved with `<prefix><n>-`
+ */
+export function lintDuplicateIdsAcrossBlocks (text: string, blocks: SvgBlock[], prefix = 'svg'): SvgLintIssue[] {
+  const blockIds = blocks.map(block => collectIds(block.content))
+  const owners = new Map<string, Set<number>>()
+
+  blockIds.forEach((ids, index) => {
+    for (const { id } of ids) {
+      if (!owners.has(id)) {
+        owners.set(id, new Set())
+      }
+      owners.get(id)!.add(index)
+    }
+  })
+
+  const shared = new Set([...owners].filter(([, indexes]) => indexes.size > 1).map(([id]) => id))
+  if (shared.size === 0) {
+    return []
+  }
+
+  const involved = blocks
+    .map((block, index) => ({ block, index }))
+    .filter(({ index }) => blockIds[index].some(({ id }) => shared.has(id)))
+
+  // Skip prefixes the document already uses, so a second run cannot produce new clashes
+  let counter = 1
+  const nextPrefix = () => {
+    while (text.includes(`${prefix}${counter}-`)) {
+      counter++
+    }
+    return `${prefix}${counter++}-`
+  }
+
+  const fix = {
+    title: 'Prefix the ids of the SVGs that share them',
+    edits: involved.map(({ block }) => ({
+      start: block.start,
+      end: block.end,
+      newText: prefixSvgIds(block.content, nextPrefix())
+    }))
+  }
+
+  const issues: SvgLintIssue[] = []
+
+  for (const { block, index } of involved) {
+    for (const occurrence of blockIds[index]) {
+      if (!shared.has(occurrence.id)) {
+        continue
+      }
+
+      issues.push({
+        rule: 'duplicate-ids-across-svgs',
+        message: `id "${occurrence.id}" is also used by another SVG in this file, references to it may resolve to the wrong element`,
+        start: block.start + occurrence.start,
+        end: block.start + occurrence.end,
+        fixes: [fix]
+      })
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,166 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { buildSvgImport, findSvgReference, inlineSvgUsage, SvgImportEdit } from './svgImport'
+
+// Applies the edits from the end of the document, as they are relative to the original text
+const apply = (text: string, svg: string, edit: SvgImportEdit) => {
+    const start = text.indexOf(svg)
+    const edits = [{ start, end: start + svg.length, text: edit.usage }]
+    if (edit.import) {
+        edits.push({ start: edit.import.offset, end: edit.import.offset, text: edit.import.text })
+    }
+    return edits
+        .sort((a, b) => b.start - a.start)
+        .reduce((result, { start, end, text }) => result.slice(0, start) + text + result.slice(end), text)
+}
+
+describe('buildSvgImport', () => {
+    const options = { importPath: './icons/arrow.svg', componentName: 'ArrowIcon' }
+
+    it('should import a React component and keep dynamic attributes as props', () => {
+        const svg = '<svg width={size} className={cls} {...props} viewBox="0 0 24 24"><path d="M0 0h24" /></svg>'
+        const text = `import { useState } from "react";
+
+export function Button ({ size, cls, ...props }) {
+  return <button>${svg}</button>
+}
+`
+        const edit = buildSvgImport(text, svg, { ...options, languageId: 'typescriptreact', dialect: 'react' })
+        assert.strictEqual(edit.droppedDynamicContent, false)
+        assert.strictEqual(apply(text, svg, edit), `import { useState } from "react";
+import ArrowIcon from "./icons/arrow.svg?react";
+
+export function Button ({ size, cls, ...props }) {
+  return <button><ArrowIcon width={size} className={cls} {...props} /></button>
+}
+`)
+    })
+
+    it('should add the first import after directives', () => {
+        const svg = '<svg viewBox="0 0 24 24"></svg>'
+        const text = `'use client'\n\nexport const Icon = () => ${svg}\n`
+        const edit = buildSvgImport(text, svg, { ...options, languageId: 'javascriptreact', dialect: 'react' })
+        assert.strictEqual(apply(text, svg, edit), '\'use client\'\nimport ArrowIcon from \'./icons/arrow.svg?react\'\n\nexport const Icon = () => <ArrowIcon />\n')
+
+        const qwik = buildSvgImport('', svg, { ...options, languageId: 'typescriptreact', dialect: 'qwik' })
+        assert.strictEqual(qwik.import?.text, 'import ArrowIcon from \'./icons/arrow.svg?jsx\'\n')
+    })
+
+    it('should use an <img> with an imported URL in Solid and Svelte', () => {
+        const svg = '<svg class="icon" onClick={select} fill={color}><path /></svg>'
+        const edit = buildSvgImport('', svg, { ...options, languageId: 'typescriptreact', dialect: 'solid' })
+        assert.strictEqual(edit.usage, '<img src={arrowIconUrl} alt="" onClick={select} />')
+        assert.strictEqual(edit.import?.text, 'import arrowIconUrl from \'./icons/arrow.svg\'\n')
+        // fill means nothing on an <img>
+        assert.strictEqual(edit.droppedDynamicContent, true)
+
+        const svelteSvg = '<svg width={size}></svg>'
+        const svelte = `<script lang="ts">\n  import Button from './Button.svelte'\n</script>\n\n${svelteSvg}\n`
+        const svelteEdit = buildSvgImport(svelte, svelteSvg, { ...options, languageId: 'svelte', dialect: 'markup' })
+        assert.strictEqual(
+            apply(svelte, svelteSvg, svelteEdit),
+            '<script lang="ts">\n  import Button from \'./Button.svelte\'\n  import arrowIconUrl from \'./icons/arrow.svg\'\n</script>\n\n<img src={arrowIconUrl} alt="" width={size} />\n'
+        )
+    })
+
+    it('should import Vue components in <script setup>', () => {
+        const svg = '<svg :width="size" class="icon"><path v-if="open" /></svg>'
+        const vue = `<template>\n  ${svg}\n</template>\n\n<script setup lang="ts">\nconst size = 24\n</script>\n`
+        const edit = buildSvgImport(vue, svg, { ...options, languageId: 'vue', dialect: 'markup' })
+        assert.strictEqual(edit.droppedDynamicContent, true)
+        assert.strictEqual(
+            apply(vue, svg, edit),
+            '<template>\n  <ArrowIcon :width="size" />\n</template>\n\n<script setup lang="ts">\nimport ArrowIcon from \'./icons/arrow.svg?component\'\nconst size = 24\n</script>\n'
+        )
+
+        const withoutScript = buildSvgImport('<template>\n  <svg></svg>\n</template>\n', '<svg></svg>', { ...options, languageId: 'vue', dialect: 'markup' })
+        assert.deepStrictEqual(withoutScript.import, {
+            offset: 0,
+            text: '<script setup>\nimport ArrowIcon from \'./icons/arrow.svg?component\'\n</script>\n\n'
+        })
+    })
+
+    it('should import Astro components in the frontmatter', () => {
+        const svg = '<svg viewBox="0 0 24 24"></svg>'
+        const astro = `---\nimport Layout from '../layouts/Layout.astro'\n---\n\n<Layout>${svg}</Layout>\n`
+        const edit = buildSvgImport(astro, svg, { ...options, languageId: 'astro', dialect: 'markup' })
+        assert.strictEqual(
+            apply(astro, svg, edit),
+            '---\nimport Layout from \'../layouts/Layout.astro\'\nimport ArrowIcon from \'./icons/arrow.svg\'\n---\n\n<Layout><ArrowIcon /></Layout>\n'
+        )
+
+        const withoutFrontmatter = buildSvgImport(svg, svg, { ...options, languageId: 'astro', dialect: 'markup' })
+        assert.strictEqual(withoutFrontmatter.import?.text, '---\nimport ArrowIcon from \'./icons/arrow.svg\'\n---\n\n')
+    })
+
+    it('should point an <img> at the file elsewhere', () => {
+        const svg = '<svg class="{{ classes }}" width="24"><path d="M0 0h24" /></svg>'
+        const edit = buildSvgImport(svg, svg, { ...options, languageId: 'twig', dialect: 'template' })
+        assert.deepStrictEqual(edit, {
+            usage: '<img src="./icons/arrow.svg" alt="" class="{{ classes }}" />',
+            droppedDynamicContent: false
+        })
+    })
+})
+
+describe('findSvgReference', () => {
+    const component = `import Logo from './logo.svg?react'
+import { Button } from './Button'
+
+export function Header () {
+  return <header><Logo className="logo" /><Button /></header>
+}
+`
+
+    it('should find every usage of an imported component from its import', () => {
+        const reference = findSvgReference(component, 10)!
+        assert.strictEqual(reference.path, './logo.svg')
+        assert.deepStrictEqual(reference.usages.map(usage => component.slice(usage.start, usage.end)), ['<Logo className="logo" />'])
+        assert.deepStrictEqual(reference.usages[0].attributes, ['className="logo"'])
+        assert.strictEqual(component.slice(reference.unusedImport!.start, reference.unusedImport!.end), 'import Logo from \'./logo.svg?react\'\n')
+    })
+
+    it('should keep the import while other code uses it', () => {
+        const text = `${component}\nexport { Logo }\n`
+        const reference = findSvgReference(text, text.indexOf('<Logo') + 2)!
+        assert.strictEqual(reference.usages.length, 1)
+        assert.strictEqual(reference.unusedImport, undefined)
+    })
+
+    it('should find images pointing at SVG files', () => {
+        const html = '<p><img src="./icons/arrow.svg" alt="Back" width="16"></p>'
+        const reference = findSvgReference(html, 8)!
+        assert.strictEqual(reference.path, './icons/arrow.svg')
+        assert.deepStrictEqual(reference.usages[0].attributes, ['src="./icons/arrow.svg"', 'alt="Back"', 'width="16"'])
+        assert.strictEqual(reference.unusedImport, undefined)
+
+        const svelte = '<script>\n  import arrowUrl from \'./arrow.svg\'\n</script>\n\n<img src={arrowUrl} alt="" />\n'
+        const imported = findSvgReference(svelte, svelte.indexOf('<img'))!
+        assert.strictEqual(imported.path, './arrow.svg')
+        assert.ok(imported.unusedImport)
+    })
+
+    it('should ignore other elements and components with children', () => {
+        assert.strictEqual(findSvgReference('<img src="./photo.png" /> <a href="./logo.svg">', 3), undefined)
+        const text = 'import Logo from \'./logo.svg\'\n<Logo><span /></Logo>'
+        assert.strictEqual(findSvgReference(text, text.indexOf('<Logo') + 1), undefined)
+    })
+})
+
+describe('inlineSvgUsage', () => {
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24">\n  <path d="M0 0h24" />\n</svg>'
+
+    it('should merge the props of a component into the root element', () => {
+        const usage = { start: 0, end: 0, element: 'component' as const, attributes: ['width={32}', 'className="logo"', '{...props}'] }
+        assert.strictEqual(
+            inlineSvgUsage(svg, usage, '    '),
+            '<svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 0 24 24" width={32} className="logo" {...props}>\n      <path d="M0 0h24" />\n    </svg>'
+        )
+    })
+
+    it('should turn the alt of an image into the accessible name', () => {
+        const image = (attributes: string[]) => inlineSvgUsage('<svg aria-hidden="true" viewBox="0 0 24 24"/>', { start: 0, end: 0, element: 'img', attributes })
+        assert.strictEqual(image(['src="./a.svg"', 'alt="Back"']), '<svg viewBox="0 0 24 24" role="img" aria-label="Back" />')
+        assert.strictEqual(image(['src="./a.svg"', 'alt=""', ':width="size"']), '<svg viewBox="0 0 24 24" aria-hidden="true" :width="size" />')
+    })
+})
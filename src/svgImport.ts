@@ -0,0 +1,429 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getDialectOptions, SvgDialect } from './dialects'
+import { hasDynamicContent, isReactNativeSvg } from './svgTransform'
+
+export interface SvgImportOptions {
+  /**
+   * Path of the SVG file relative to the document (`./icons/arrow.svg`)
+   */
+  importPath: string
+  componentName: string
+  languageId: string
+  dialect: SvgDialect
+}
+
+export interface SvgImportEdit {
+  /**
+   * Replacement of the inline SVG
+   */
+  usage: string
+  /**
+   * Import statement and the offset of the document to insert it at, none for plain `<img>` tags
+   */
+  import?: { offset: number, text: string }
+  /**
+   * Whether expressions, directives or dynamic attributes could not be kept
+   */
+  droppedDynamicContent: boolean
+}
+
+interface ImportSyntax {
+  /**
+   * `component` renders the SVG file as a component, `url` and `path` with an `<img>`
+   */
+  usage: 'component' | 'url' | 'path'
+  /**
+   * Query that makes the bundler import the SVG as a component (vite-plugin-svgr, vite-svg-loader, Qwik)
+   */
+  query?: string
+  /**
+   * Where the import statement goes
+   */
+  script?: 'module' | 'vue' | 'svelte' | 'astro'
+}
+
+const JSX_LANGUAGES = ['javascriptreact', 'typescriptreact']
+
+// Attributes that still make sense on the <img> that replaces the SVG
+const IMG_ATTRIBUTE = /^(?:width|height|class|className|style|id|title|role|alt|tabindex|tabIndex|key|ref|aria-.+|data-.+|class:.+)$/
+const EVENT_ATTRIBUTE = /^(?:on[A-Z:-]|@|\()/
+
+function getImportSyntax (svgContent: string, languageId: string, dialect: SvgDialect): ImportSyntax {
+  switch (languageId) {
+    case 'vue':
+      return { usage: 'component', query: '?component', script: 'vue' }
+    case 'astro':
+      return { usage: 'component', script: 'astro' }
+    case 'svelte':
+      return { usage: 'url', script: 'svelte' }
+  }
+
+  if (!JSX_LANGUAGES.includes(languageId)) {
+    return { usage: 'path' }
+  }
+
+  if (isReactNativeSvg(svgContent)) {
+    // react-native-svg-transformer
+    return { usage: 'component', script: 'module' }
+  }
+  if (dialect === 'solid') {
+    return { usage: 'url', script: 'module' }
+  }
+  return { usage: 'component', query: dialect === 'qwik' ? '?jsx' : '?react', script: 'module' }
+}
+
+/**
+ * Splits the attributes of the tag whose name ends at the given offset, keeping expressions and quoted values whole.
+ * Returns them with the offset where the tag ends
+ */
+function splitTagAttributes (text: string, nameEnd: number): { attributes: string[], tagEnd: number, selfClosing: boolean } {
+  const attributes: string[] = []
+  let current = ''
+  let quote = ''
+  let depth = 0
+  let i = nameEnd
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+
+    if (quote) {
+      quote = char === quote ? '' : quote
+    } else if (char === '"' || char === '\'' || (char === '`' && depth > 0)) {
+      quote = char
+    } else if (char === '{') {
+      depth++
+    } else if (char === '}') {
+      depth = Math.max(0, depth - 1)
+    } else if (depth === 0 && (char === '>' || text.startsWith('/>', i))) {
+      break
+    } else if (depth === 0 && /\s/.test(char)) {
+      if (current) {
+        attributes.push(current)
+      }
+      current = ''
+      continue
+    }
+    current += char
+  }
+
+  if (current) {
+    attributes.push(current)
+  }
+
+  const tagEnd = text.indexOf('>', i) + 1
+  return { attributes, tagEnd, selfClosing: text[tagEnd - 2] === '/' }
+}
+
+function splitRootAttributes (svgContent: string) {
+  return splitTagAttributes(svgContent, Math.max(0, svgContent.search(/<svg/i)) + 4)
+}
+
+/**
+ * Name of an attribute without the binding syntax of its framework (`:width`, `[attr.width]`, `bind-width`)
+ */
+function getBaseName (attribute: string): string {
+  return attribute
+    .split('=')[0]
+    .replace(/^(?:v-bind:|:|\[attr\.|\[|bind-)/, '')
+    .replace(/\]$/, '')
+}
+
+/**
+ * Offset after the last import of a script, or where the first one should go, with the indentation of its statements
+ */
+function findImportOffset (text: string, start: number, end: number): { offset: number, indentation: string, afterImport: boolean } {
+  const script = text.slice(start, end)
+  const importPattern = /^([ \t]*)import[\s{*'"][\s\S]*?['"][^'"\n]*['"][ \t]*;?[ \t]*$/gm
+  let last: RegExpExecArray | undefined
+  let match
+  while ((match = importPattern.exec(script))) {
+    last = match
+  }
+
+  if (last) {
+    return { offset: start + last.index + last[0].length, indentation: last[1], afterImport: true }
+  }
+
+  // Leading comments and directives ('use client') stay first
+  const preamble = script.match(/^(?:\s*(?:\/\/[^\n]*|\/\*[\s\S]*?\*\/|(['"])use \w+\1;?))*[^\S\n]*\n?/)![0]
+  const indentation = script.slice(preamble.length).match(/^[ \t]*(?=\S)/)?.[0] ?? ''
+  return { offset: start + preamble.length, indentation, afterImport: false }
+}
+
+/**
+ * Import statement inserted in the script of the document, creating the script block when there is none
+ */
+function buildImport (text: string, statement: string, script: NonNullable<ImportSyntax['script']>): { offset: number, text: string } {
+  // Follow the quotes and semicolons of the existing imports
+  const sample = text.match(/^[ \t]*import[\s{*][\s\S]*?(['"])[^'"\n]*\1([ \t]*;)?[ \t]*$/m)
+  const quote = sample?.[1] ?? '\''
+  const line = `${statement.replace(/'/g, quote)}${sample?.[2] ? ';' : ''}`
+
+  let block: { start: number, end: number } | undefined
+  let wrap = (content: string) => content
+
+  if (script === 'module') {
+    block = { start: 0, end: text.length }
+  } else if (script === 'astro') {
+    const frontmatter = text.match(/^(\s*---[^\S\n]*\n)([\s\S]*?)^---/m)
+    if (frontmatter && frontmatter.index === 0) {
+      block = { start: frontmatter[1].length, end: frontmatter[1].length + frontmatter[2].length }
+    } else {
+      wrap = content => `---\n${content}---\n\n`
+    }
+  } else {
+    // Vue imports go in <script setup>, Svelte ones in the instance script
+    const openTag = script === 'vue'
+      ? /<script\b[^>]*\bsetup\b[^>]*>/
+      : /<script\b(?![^>]*\b(?:context="module"|module\b))[^>]*>/
+    const tag = text.match(openTag)
+    if (tag) {
+      const start = tag.index! + tag[0].length + (text[tag.index! + tag[0].length] === '\n' ? 1 : 0)
+      block = { start, end: text.indexOf('</script>', start) }
+    } else {
+      const lang = text.match(/<script\b[^>]*\b(lang="[^"]*")/)?.[1]
+      wrap = content => `<script${script === 'vue' ? ' setup' : ''}${lang ? ` ${lang}` : ''}>\n${content}</script>\n\n`
+    }
+  }
+
+  if (!block) {
+    return { offset: 0, text: wrap(`${line}\n`) }
+  }
+
+  const { offset, indentation, afterImport } = findImportOffset(text, block.start, block.end)
+  if (afterImport) {
+    return { offset, text: `\n${indentation}${line}` }
+  }
+  // A blank line between the new import and the code of a module
+  const rest = text.slice(offset)
+  const separator = script === 'module' && rest.trim() && !/^[^\S\n]*\n/.test(rest) ? '\n' : ''
+  return { offset, text: `${indentation}${line}\n${separator}` }
+}
+
+/**
+ * Builds the usage and import that replace an inline SVG extracted to a file: a component (`?react`,
+ * Vue and Astro components) or an `<img>`. Dynamic attributes of the root element are kept on the usage
+ */
+export function buildSvgImport (documentText: string, svgContent: string, options: SvgImportOptions): SvgImportEdit {
+  const { importPath, componentName, languageId, dialect } = options
+  const syntax = getImportSyntax(svgContent, languageId, dialect)
+  const transformOptions = getDialectOptions(dialect)
+
+  const { attributes, tagEnd } = splitRootAttributes(svgContent)
+  let droppedDynamicContent = hasDynamicContent(`<svg>${svgContent.slice(tagEnd)}`, transformOptions)
+
+  const kept: string[] = []
+  for (const attribute of attributes) {
+    if (!hasDynamicContent(`<svg ${attribute}></svg>`, transformOptions)) {
+      continue
+    }
+
+    const baseName = getBaseName(attribute)
+    if (syntax.usage === 'component' || attribute.startsWith('{') || IMG_ATTRIBUTE.test(baseName) || EVENT_ATTRIBUTE.test(attribute)) {
+      kept.push(attribute)
+    } else {
+      droppedDynamicContent = true
+    }
+  }
+
+  const props = kept.map(attribute => ` ${attribute}`).join('')
+  const urlName = `${componentName[0].toLowerCase()}${componentName.slice(1)}Url`
+
+  switch (syntax.usage) {
+    case 'component':
+      return {
+        usage: `<${componentName}${props} />`,
+        import: buildImport(documentText, `import ${componentName} from '${importPath}${syntax.query ?? ''}'`, syntax.script!),
+        droppedDynamicContent
+      }
+    case 'url':
+      return {
+        usage: `<img src={${urlName}} alt=""${props} />`,
+        import: buildImport(documentText, `import ${urlName} from '${importPath}'`, syntax.script!),
+        droppedDynamicContent
+      }
+    case 'path':
+      return {
+        usage: `<img src="${importPath}" alt=""${props} />`,
+        droppedDynamicContent
+      }
+  }
+}
+
+export interface SvgUsage {
+  start: number
+  end: number
+  /**
+   * `img` for `<img src>` tags, `component` for components imported from an SVG file
+   */
+  element: 'img' | 'component'
+  attributes: string[]
+}
+
+export interface SvgReference {
+  /**
+   * Path of the SVG file as written in the document, without the query of the import
+   */
+  path: string
+  usages: SvgUsage[]
+  /**
+   * Import statement left unused once the usages are inlined, with its line break
+   */
+  unusedImport?: { start: number, end: number }
+}
+
+interface SvgFileImport {
+  name: string
+  path: string
+  start: number
+  end: number
+}
+
+// Default imports of SVG files, with the queries of svgr, vite-svg-loader and Qwik
+const SVG_FILE_IMPORT = /^[ \t]*import\s+([A-Za-z_$][\w$]*)\s+from\s+(['"])([^'"\n]+?\.svg)(?:\?[\w-]*)?\2[ \t]*;?[ \t]*\n?/gm
+
+/**
+ * Source of an `<img>` (`src="./logo.svg"`, `src={logoUrl}`, `:src="logoUrl"`), as a path or an identifier
+ */
+function getImageSource (attributes: string[]): { path?: string, identifier?: string } | undefined {
+  const source = attributes.find(attribute => getBaseName(attribute) === 'src')
+  const value = source?.slice(source.indexOf('=') + 1)
+  if (!source || !value) {
+    return undefined
+  }
+
+  const literal = value.match(/^(["'])([^"'{}]+\.svg)\1$/)
+  if (literal && source.startsWith('src=')) {
+    return { path: literal[2] }
+  }
+
+  const identifier = value.match(/^(?:\{\s*|["']\s*)([A-Za-z_$][\w$]*)\s*[}"']$/)
+  return identifier ? { identifier: identifier[1] } : undefined
+}
+
+/**
+ * Finds the SVG file referenced at the given offset: an import of an SVG file, a component imported
+ * from one or an `<img>` pointing at one, with every usage to replace when inlining it
+ */
+export function findSvgReference (text: string, offset: number): SvgReference | undefined {
+  if (!text.includes('.svg')) {
+    return undefined
+  }
+
+  const imports: SvgFileImport[] = Array.from(text.matchAll(SVG_FILE_IMPORT)).map(match => ({
+    name: match[1],
+    path: match[3],
+    start: match.index!,
+    end: match.index! + match[0].length
+  }))
+  const importNames = new Set(imports.map(({ name }) => name))
+
+  const elements: Array<SvgUsage & { source?: { path?: string, identifier?: string } }> = []
+  for (const match of text.matchAll(/<(img|[A-Z][\w$]*)(?=[\s/>])/g)) {
+    const [tag, name] = match
+    if (name !== 'img' && !importNames.has(name)) {
+      continue
+    }
+
+    const { attributes, tagEnd, selfClosing } = splitTagAttributes(text, match.index! + tag.length)
+    if (tagEnd === 0) {
+      continue
+    }
+
+    if (name === 'img') {
+      elements.push({ start: match.index!, end: tagEnd, element: 'img', attributes, source: getImageSource(attributes) })
+      continue
+    }
+
+    // Components with children cannot become an SVG
+    const closing = selfClosing ? '' : text.slice(tagEnd).match(new RegExp(`^\\s*</${name.replace(/\$/g, '\\$')}\\s*>`))?.[0]
+    if (closing !== undefined) {
+      elements.push({ start: match.index!, end: tagEnd + closing.length, element: 'component', attributes, source: { identifier: name } })
+    }
+  }
+
+  let imported = imports.find(({ start, end }) => start <= offset && offset < end)
+  let usages: typeof elements
+  let path: string | undefined
+
+  if (imported) {
+    const name = imported.name
+    usages = elements.filter(element => element.source?.identifier === name)
+  } else {
+    const element = elements.find(({ start, end }) => start <= offset && offset <= end)
+    imported = imports.find(({ name }) => name === element?.source?.identifier)
+    path = element?.source?.path
+    usages = element && (imported || path) ? [element] : []
+  }
+
+  if (usages.length === 0) {
+    return undefined
+  }
+
+  const reference: SvgReference = {
+    path: imported?.path ?? path!,
+    usages: usages.map(({ start, end, element, attributes }) => ({ start, end, element, attributes }))
+  }
+
+  // The import is only removed when nothing else uses the name
+  if (imported) {
+    let rest = text
+    for (const { start, end } of [...usages, imported].sort((a, b) => b.start - a.start)) {
+      rest = rest.slice(0, start) + rest.slice(end)
+    }
+    if (!new RegExp(`(?<![\\w$])${imported.name.replace(/\$/g, '\\$')}(?![\\w$])`).test(rest)) {
+      reference.unusedImport = { start: imported.start, end: imported.end }
+    }
+  }
+
+  return reference
+}
+
+/**
+ * Markup that replaces a usage: the SVG of the file (already in the syntax of the document) with the attributes
+ * of the usage merged into its root element, `alt` becoming its accessible name. Lines after the first get the indentation of the usage
+ */
+export function inlineSvgUsage (svg: string, usage: SvgUsage, indentation = ''): string {
+  const usageAttributes = usage.attributes.flatMap(attribute => {
+    const baseName = getBaseName(attribute)
+    if (usage.element !== 'img' || (baseName !== 'src' && baseName !== 'alt')) {
+      return [attribute]
+    }
+    if (baseName === 'src') {
+      return []
+    }
+    // An empty alt marks a decorative image
+    return attribute === 'alt' || /^alt=(?:""|''|\{\s*(?:""|'')\s*\})$/.test(attribute)
+      ? ['aria-hidden="true"']
+      : ['role="img"', attribute.replace('alt', 'aria-label')]
+  })
+
+  const replaced = new Set(usageAttributes.map(getBaseName))
+  if (replaced.has('role')) {
+    replaced.add('aria-hidden')
+  }
+
+  const { attributes, tagEnd, selfClosing } = splitRootAttributes(svg)
+  const merged = [...attributes.filter(attribute => !replaced.has(getBaseName(attribute))), ...usageAttributes]
+  const markup = `${svg.slice(0, svg.search(/<svg/i))}<svg${merged.map(attribute => ` ${attribute}`).join('')}${selfClosing ? ' />' : '>'}${svg.slice(tagEnd)}`
+
+  return markup
+    .split('\n')
+    .map((line, index) => index > 0 && line.trim() ? indentation + line : line)
+    .join('\n')
+}
@@ -0,0 +1,158 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { lintSvg, roundNumbers, SvgLintIssue } from './svgLint'
+import { findSvgBlocks } from './svgLocator'
+
+function applyFix (svg: string, issue: SvgLintIssue, index = 0): string {
+    const fix = issue.fixes?.[index]
+    assert.ok(fix, `Expected a fix for ${issue.rule}`)
+    return [...fix.edits]
+        .sort((a, b) => b.start - a.start)
+        .reduce((result, edit) => result.slice(0, edit.start) + edit.newText + result.slice(edit.end), svg)
+}
+
+function rules (issues: SvgLintIssue[]): string[] {
+    return issues.map(issue => issue.rule)
+}
+
+// Decorative SVGs, so the accessibility rules stay quiet in the generic tests
+describe('SVG lint', () => {
+    it('should not report a clean icon', () => {
+        const svg = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" aria-hidden="true"><path d="M1 1h22v22z"/></svg>'
+        assert.deepStrictEqual(lintSvg(svg, { standalone: true }), [])
+    })
+
+    it('should add a viewBox from width and height', () => {
+        const svg = '<svg width="24px" height="16"><path d="M0 0h24"/></svg>'
+        const issue = lintSvg(svg).find(issue => issue.rule === 'missing-viewbox')
+        assert.ok(issue)
+        assert.strictEqual(applyFix(svg, issue), '<svg viewBox="0 0 24 16" width="24px" height="16"><path d="M0 0h24"/></svg>')
+    })
+
+    it('should not offer a viewBox fix without numeric dimensions', () => {
+        const issue = lintSvg('<svg width="100%"></svg>').find(issue => issue.rule === 'missing-viewbox')
+        assert.ok(issue)
+        assert.strictEqual(issue.fixes, undefined)
+    })
+
+    it('should accept JSX expression viewBox', () => {
+        assert.ok(!rules(lintSvg('<svg viewBox={box}></svg>')).includes('missing-viewbox'))
+    })
+
+    it('should only require xmlns on standalone files', () => {
+        const svg = '<svg viewBox="0 0 1 1" aria-hidden="true"></svg>'
+        assert.deepStrictEqual(rules(lintSvg(svg)), [])
+        const issue = lintSvg(svg, { standalone: true })[0]
+        assert.strictEqual(issue.rule, 'missing-xmlns')
+        assert.strictEqual(applyFix(svg, issue), '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1" aria-hidden="true"></svg>')
+    })
+
+    it('should remove hardcoded dimensions', () => {
+        const svg = '<svg width="24" viewBox="0 0 24 24" height="24" fill="none"></svg>'
+        const issue = lintSvg(svg).find(issue => issue.rule === 'hardcoded-dimensions')
+        assert.ok(issue)
+        assert.strictEqual(applyFix(svg, issue), '<svg viewBox="0 0 24 24" fill="none"></svg>')
+    })
+
+    it('should report embedded raster images', () => {
+        const svg = '<svg viewBox="0 0 1 1" aria-hidden="true"><image href="data:image/png;base64,iVBORw0KGgo="/><image href="data:image/svg+xml;base64,PHN2Zz4="/></svg>'
+        assert.deepStrictEqual(rules(lintSvg(svg)), ['embedded-raster'])
+    })
+
+    it('should report and remove unused defs', () => {
+        const svg = '<svg viewBox="0 0 1 1"><defs><linearGradient id="a"><stop offset="0"/></linearGradient><clipPath id="b"><rect/></clipPath></defs><path fill="url(#a)"/></svg>'
+        const issues = lintSvg(svg).filter(issue => issue.rule === 'unused-defs')
+        assert.strictEqual(issues.length, 1)
+        assert.strictEqual(issues[0].message, 'Definition "b" is never used')
+        assert.strictEqual(applyFix(svg, issues[0]), '<svg viewBox="0 0 1 1"><defs><linearGradient id="a"><stop offset="0"/></linearGradient></defs><path fill="url(#a)"/></svg>')
+    })
+
+    it('should consider href references as used', () => {
+        const svg = '<svg viewBox="0 0 1 1" aria-hidden="true"><defs><path id="p"/></defs><use xlink:href="#p"/></svg>'
+        assert.deepStrictEqual(rules(lintSvg(svg)), [])
+    })
+
+    it('should report duplicate ids', () => {
+        const svg = '<svg viewBox="0 0 1 1" aria-hidden="true"><g id="x"/><g id="x"/></svg>'
+        assert.deepStrictEqual(rules(lintSvg(svg)), ['duplicate-ids'])
+    })
+
+    it('should round excessive path precision', () => {
+        const svg = '<svg viewBox="0 0 1 1"><path d="M.123456 1.5-.00001L2.99999 3"/></svg>'
+        const issue = lintSvg(svg).find(issue => issue.rule === 'excessive-precision')
+        assert.ok(issue)
+        assert.strictEqual(applyFix(svg, issue), '<svg viewBox="0 0 1 1"><path d="M.123 1.5-0L3 3"/></svg>')
+    })
+
+    it('should respect the configured precision', () => {
+        const svg = '<svg viewBox="0 0 1 1" aria-hidden="true"><path d="M1.12345 0"/></svg>'
+        assert.deepStrictEqual(rules(lintSvg(svg, { maxPrecision: 5 })), [])
+    })
+
+    it('should round numbers', () => {
+        assert.strictEqual(roundNumbers('10.50000 .25 -0.3333', 2), '10.5 .25 -0.33')
+    })
+
+    it('should keep compact numbers apart when rounding', () => {
+        assert.strictEqual(roundNumbers('M1.00001.5 2.000001.25', 3), 'M1 .5 2 .25')
+    })
+})
+
+describe('SVG accessibility lint', () => {
+    it('should ask for an accessible name', () => {
+        const svg = '<svg viewBox="0 0 24 24"><path d="M0 0h24"/></svg>'
+        const issue = lintSvg(svg, { label: 'Arrow left' })[0]
+        assert.strictEqual(issue.rule, 'a11y-missing-name')
+        assert.strictEqual(applyFix(svg, issue, 0), '<svg aria-hidden="true" viewBox="0 0 24 24"><path d="M0 0h24"/></svg>')
+        assert.strictEqual(applyFix(svg, issue, 1), '<svg role="img" aria-label="Arrow left" viewBox="0 0 24 24"><path d="M0 0h24"/></svg>')
+    })
+
+    it('should accept decorative and labelled SVGs', () => {
+        assert.deepStrictEqual(rules(lintSvg('<svg viewBox="0 0 1 1" aria-hidden={true}></svg>')), [])
+        assert.deepStrictEqual(rules(lintSvg('<svg viewBox="0 0 1 1" role="presentation"></svg>')), [])
+        assert.deepStrictEqual(rules(lintSvg('<svg viewBox="0 0 1 1" role="img" :aria-label="label"></svg>')), [])
+    })
+
+    it('should not accept aria-hidden="false" as decorative', () => {
+        assert.deepStrictEqual(rules(lintSvg('<svg viewBox="0 0 1 1" aria-hidden="false"></svg>')), ['a11y-missing-name'])
+    })
+
+    it('should ask for role="img" on meaningful SVGs', () => {
+        const svg = '<svg viewBox="0 0 1 1" aria-label="Logo"></svg>'
+        const issue = lintSvg(svg)[0]
+        assert.strictEqual(issue.rule, 'a11y-missing-role')
+        assert.strictEqual(applyFix(svg, issue), '<svg role="img" viewBox="0 0 1 1" aria-label="Logo"></svg>')
+    })
+
+    it('should link <title> with aria-labelledby', () => {
+        const svg = '<svg id="logo" viewBox="0 0 1 1" role="img"><title>Logo</title></svg>'
+        const issue = lintSvg(svg)[0]
+        assert.strictEqual(issue.rule, 'a11y-title-not-linked')
+        assert.strictEqual(applyFix(svg, issue), '<svg aria-labelledby="logo-title" id="logo" viewBox="0 0 1 1" role="img"><title id="logo-title">Logo</title></svg>')
+    })
+
+    it('should give the <title> of each inline SVG its own id', () => {
+        const html = '<svg viewBox="0 0 1 1" role="img"><title>Home</title></svg>\n<svg viewBox="0 0 1 1" role="img"><title>Search</title></svg>'
+        const ids = findSvgBlocks(html).map((block, index) => {
+            const issue = lintSvg(block.content, { index })[0]
+            assert.strictEqual(issue.rule, 'a11y-title-not-linked')
+            return applyFix(block.content, issue).match(/<title id="([^"]+)"/)?.[1]
+        })
+        assert.deepStrictEqual(ids, ['image-1-title', 'image-2-title'])
+    })
+
+    it('should reuse the id of the <title>', () => {
+        const svg = '<svg viewBox="0 0 1 1" role="img"><title id="t1">Logo</title></svg>'
+        assert.strictEqual(applyFix(svg, lintSvg(svg)[0]), '<svg aria-labelledby="t1" viewBox="0 0 1 1" role="img"><title id="t1">Logo</title></svg>')
+    })
+
+    it('should use JSX attribute names in React files', () => {
+        // aria-* attributes stay kebab-case in JSX, only SVG presentation attributes are camelCased
+        const svg = '<svg className="icon" viewBox="0 0 24 24"></svg>'
+        const issue = lintSvg(svg, { useCamelCase: true, label: 'Icon' })[0]
+        assert.strictEqual(applyFix(svg, issue, 1), '<svg role="img" aria-label="Icon" className="icon" viewBox="0 0 24 24"></svg>')
+    })
+    it('should skip ARIA rules for react-native-svg', () => {
+        assert.deepStrictEqual(lintSvg('<Svg viewBox="0 0 24 24"><Path d="M0 0" /></Svg>', { useCamelCase: true }), [])
+    })
+})
@@ -0,0 +1,458 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isReactNativeSvg, OptimizationOptions, svgToJsxAttributeMap } from './svgTransform'
+
+export type SvgLintRule =
+  | 'missing-viewbox'
+  | 'missing-xmlns'
+  | 'hardcoded-dimensions'
+  | 'embedded-raster'
+  | 'unused-defs'
+  | 'duplicate-ids'
+  | 'duplicate-ids-across-svgs'
+  | 'excessive-precision'
+  | 'a11y-missing-name'
+  | 'a11y-missing-role'
+  | 'a11y-title-not-linked'
+
+export const SVG_LINT_RULES: SvgLintRule[] = [
+  'missing-viewbox',
+  'missing-xmlns',
+  'hardcoded-dimensions',
+  'embedded-raster',
+  'unused-defs',
+  'duplicate-ids',
+  'duplicate-ids-across-svgs',
+  'excessive-precision',
+  'a11y-missing-name',
+  'a11y-missing-role',
+  'a11y-title-not-linked'
+]
+
+/**
+ * Text replacement, offsets are relative to the linted SVG
+ */
+export interface SvgLintEdit {
+  start: number
+  end: number
+  newText: string
+}
+
+export interface SvgLintFix {
+  title: string
+  edits: SvgLintEdit[]
+}
+
+export interface SvgLintIssue {
+  rule: SvgLintRule
+  message: string
+  start: number
+  end: number
+  fixes?: SvgLintFix[]
+}
+
+export interface SvgLintOptions extends OptimizationOptions {
+  /**
+   * Whether the SVG is a file of its own (inline SVGs in HTML/JSX don't need xmlns)
+   */
+  standalone?: boolean
+  /**
+   * Decimals allowed in path data before it is reported
+   */
+  maxPrecision?: number
+  /**
+   * Accessible name suggested by the quick fixes, defaults to "Image"
+   */
+  label?: string
+  /**
+   * Position of the inline SVG in its document, keeps the ids the quick fixes add unique across its SVGs
+   */
+  index?: number
+}
+
+interface Attribute {
+  name: string
+  value: string
+  start: number
+  end: number
+}
+
+const SVG_OPEN_TAG = /<svg(?=[\s/>])[^>]*>/i
+
+function parseAttributes (tag: string, offset: number): Attribute[] {
+  const attributes: Attribute[] = []
+  const regex = /\s([a-zA-Z_:][\w:.-]*)\s*=\s*(["'])([\s\S]*?)\2/g
+  let match
+
+  while ((match = regex.exec(tag)) !== null) {
+    attributes.push({
+      name: match[1],
+      value: match[3],
+      start: offset + match.index + 1,
+      end: offset + match.index + match[0].length
+    })
+  }
+
+  return attributes
+}
+
+/**
+ * Attribute name as written in the host document (e.g. `xlinkHref` in React files)
+ */
+function hostAttributeName (name: string, options: SvgLintOptions): string {
+  return options.useCamelCase ? (svgToJsxAttributeMap[name] ?? name) : name
+}
+
+function insertAttributes (title: string, at: number, attributes: Record<string, string>, options: SvgLintOptions): SvgLintFix {
+  const newText = Object.entries(attributes)
+    .map(([name, value]) => ` ${hostAttributeName(name, options)}="${value}"`)
+    .join('')
+  return { title, edits: [{ start: at, end: at, newText }] }
+}
+
+function isPixelLength (value: string): boolean {
+  return /^\s*\d+(\.\d+)?(px)?\s*$/.test(value)
+}
+
+/**
+ * Finds the end offset of the element starting at `start`, handling nested elements with the same name
+ */
+function findElementEnd (svgContent: string, start: number): number {
+  const openTag = svgContent.slice(start).match(/^<([\w:.-]+)[^>]*?(\/?)>/)
+  if (!openTag) {
+    return start
+  }
+
+  if (openTag[2] === '/') {
+    return start + openTag[0].length
+  }
+
+  const name = openTag[1]
+  const regex = new RegExp(`<(/?)${name.replace(/[.]/g, '\\.')}(?=[\\s/>])[^>]*?(/?)>`, 'g')
+  regex.lastIndex = start + openTag[0].length
+  let depth = 1
+  let match
+
+  while ((match = regex.exec(svgContent)) !== null) {
+    if (match[1] === '/') {
+      depth--
+    } else if (match[2] !== '/') {
+      depth++
+    }
+
+    if (depth === 0) {
+      return match.index + match[0].length
+    }
+  }
+
+  return start + openTag[0].length
+}
+
+function lintRoot (svgContent: string, options: SvgLintOptions, issues: SvgLintIssue[]) {
+  const rootMatch = SVG_OPEN_TAG.exec(svgContent)
+  if (!rootMatch) {
+    return
+  }
+
+  const rootStart = rootMatch.index
+  const rootEnd = rootStart + rootMatch[0].length
+  const attributes = parseAttributes(rootMatch[0], rootStart)
+  const find = (name: string) => attributes.find(attribute => attribute.name === name)
+
+  const viewBox = find('viewBox')
+  const width = find('width')
+  const height = find('height')
+  // Insert new attributes right after "<svg"
+  const insertAt = rootStart + 4
+
+  if (!viewBox && !/\sviewBox\s*=/.test(rootMatch[0])) {
+    const issue: SvgLintIssue = {
+      rule: 'missing-viewbox',
+      message: 'SVG has no viewBox, it will not scale',
+      start: rootStart,
+      end: rootEnd
+    }
+
+    if (width && height && isPixelLength(width.value) && isPixelLength(height.value)) {
+      issue.fixes = [insertAttributes('Add viewBox from width/height', insertAt, {
+        viewBox: `0 0 ${parseFloat(width.value)} ${parseFloat(height.value)}`
+      }, options)]
+    }
+
+    issues.push(issue)
+  }
+
+  if (options.standalone && !find('xmlns')) {
+    issues.push({
+      rule: 'missing-xmlns',
+      message: 'SVG has no xmlns, browsers will not render it as an image',
+      start: rootStart,
+      end: rootEnd,
+      fixes: [insertAttributes('Add xmlns', insertAt, { xmlns: 'http://www.w3.org/2000/svg' }, options)]
+    })
+  }
+
+  if (viewBox && width && height && isPixelLength(width.value) && isPixelLength(height.value)) {
+    // Single replacement from the first attribute to the end of the second one, keeping what sits between them
+    const [first, second] = width.start < height.start ? [width, height] : [height, width]
+    issues.push({
+      rule: 'hardcoded-dimensions',
+      message: 'Hardcoded width and height prevent the icon from being sized with CSS',
+      start: first.start,
+      end: second.end,
+      fixes: [{
+        title: 'Remove width and height',
+        edits: [{
+          start: first.start - 1,
+          end: second.end,
+          newText: svgContent.slice(first.end, second.start - 1)
+        }]
+      }]
+    })
+  }
+}
+
+function lintRasterImages (svgContent: string, issues: SvgLintIssue[]) {
+  const regex = /<image\b[^>]*?(?:xlink:href|xlinkHref|href)\s*=\s*["']data:image\/(?!svg)[^;"']*;base64,[^>]*>/gi
+  let match
+
+  while ((match = regex.exec(svgContent)) !== null) {
+    issues.push({
+      rule: 'embedded-raster',
+      message: 'Embedded base64 raster image, consider a separate file or a vector shape',
+      start: match.index,
+      end: match.index + match[0].length
+    })
+  }
+}
+
+function lintIds (svgContent: string, issues: SvgLintIssue[]) {
+  const seen = new Set<string>()
+  const regex = /\sid\s*=\s*(["'])([^"']+)\1/g
+  let match
+
+  while ((match = regex.exec(svgContent)) !== null) {
+    const id = match[2]
+    if (seen.has(id)) {
+      issues.push({
+        rule: 'duplicate-ids',
+        message: `Duplicate id "${id}"`,
+        start: match.index + 1,
+        end: match.index + match[0].length
+      })
+    }
+    seen.add(id)
+  }
+}
+
+function lintUnusedDefs (svgContent: string, issues: SvgLintIssue[]) {
+  const defsRegex = /<defs(?=[\s>])[^>]*>/g
+  let defsMatch
+
+  while ((defsMatch = defsRegex.exec(svgContent)) !== null) {
+    const defsEnd = findElementEnd(svgContent, defsMatch.index)
+    let cursor = defsMatch.index + defsMatch[0].length
+
+    // Walk the direct children of <defs>
+    while (cursor < defsEnd) {
+      const childStart = svgContent.indexOf('<', cursor)
+      if (childStart === -1 || childStart >= defsEnd || svgContent.startsWith('</', childStart)) {
+        break
+      }
+
+      if (svgContent.startsWith('<!--', childStart)) {
+        cursor = svgContent.indexOf('-->', childStart) + 3
+        continue
+      }
+
+      const childEnd = findElementEnd(svgContent, childStart)
+      if (childEnd <= childStart) {
+        break
+      }
+
+      const openTag = svgContent.slice(childStart, childEnd).match(/^<[^>]*>/)?.[0] ?? ''
+      const id = openTag.match(/\sid\s*=\s*(["'])([^"']+)\1/)?.[2]
+
+      if (id && !isReferenced(svgContent, id)) {
+        issues.push({
+          rule: 'unused-defs',
+          message: `Definition "${id}" is never used`,
+          start: childStart,
+          end: childEnd,
+          fixes: [{
+            title: `Remove unused definition "${id}"`,
+            edits: [{
+              start: childStart,
+              end: childEnd,
+              newText: ''
+            }]
+          }]
+        })
+      }
+
+      cursor = childEnd
+    }
+
+    defsRegex.lastIndex = Math.max(defsRegex.lastIndex, defsEnd)
+  }
+}
+
+function isReferenced (svgContent: string, id: string): boolean {
+  const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`url\\(\\s*['"]?#${escaped}['"]?\\s*\\)|["']#${escaped}["']`).test(svgContent)
+}
+
+/**
+ * Rounds every number of a path data or points list to the given decimals
+ */
+export function roundNumbers (value: string, precision: number): string {
+  return value.replace(/-?\d*\.\d+(?:e-?\d+)?/gi, (number: string, offset: number) => {
+    let rounded = Number(parseFloat(number).toFixed(precision)).toString()
+    // Keep the sign, path data may rely on it to separate numbers ("1.5-.00001" must not become "1.50")
+    if (number.startsWith('-') && !rounded.startsWith('-')) {
+      rounded = `-${rounded}`
+    }
+    // Keep the leading zero out like path data usually does (".5" rather than "0.5")
+    if (number.startsWith('.') || number.startsWith('-.')) {
+      rounded = rounded.replace(/^(-?)0\./, '$1.')
+    }
+    // A whole number followed by ".5" would merge with it ("1.00001.5" must not become "1.5")
+    return !rounded.includes('.') && value[offset + number.length] === '.' ? `${rounded} ` : rounded
+  })
+}
+
+function lintPrecision (svgContent: string, maxPrecision: number, issues: SvgLintIssue[]) {
+  const regex = /\s(d|points)\s*=\s*(["'])([^"']*)\2/g
+  const excessive = new RegExp(`\\.\\d{${maxPrecision + 1},}`)
+  let match
+
+  while ((match = regex.exec(svgContent)) !== null) {
+    const value = match[3]
+    if (!excessive.test(value)) {
+      continue
+    }
+
+    const valueStart = match.index + match[0].length - 1 - value.length
+    issues.push({
+      rule: 'excessive-precision',
+      message: `Path data uses more than ${maxPrecision} decimals`,
+      start: match.index + 1,
+      end: match.index + match[0].length,
+      fixes: [{
+        title: `Round path data to ${maxPrecision} decimals`,
+        edits: [{
+          start: valueStart,
+          end: valueStart + value.length,
+          newText: roundNumbers(value, maxPrecision)
+        }]
+      }]
+    })
+  }
+}
+
+function lintAccessibility (svgContent: string, options: SvgLintOptions, issues: SvgLintIssue[]) {
+  // react-native-svg exposes accessibility through accessibilityLabel, not ARIA
+  if (isReactNativeSvg(svgContent)) {
+    return
+  }
+
+  const rootMatch = SVG_OPEN_TAG.exec(svgContent)
+  if (!rootMatch) {
+    return
+  }
+
+  const openTag = rootMatch[0]
+  const rootStart = rootMatch.index
+  const rootEnd = rootStart + openTag.length
+  const insertAt = rootStart + 4
+  // Also matches bound attributes like :aria-label or v-bind:aria-label
+  const has = (name: string) => new RegExp(`[\\s:]${name}\\s*=`).test(openTag)
+
+  const hidden = has('aria-hidden') && !/\saria-hidden\s*=\s*["']false["']/.test(openTag)
+  const role = openTag.match(/\srole\s*=\s*["']([^"']*)["']/)?.[1]
+  if (hidden || role === 'presentation' || role === 'none') {
+    return
+  }
+
+  const label = options.label ?? 'Image'
+  const titleMatch = /<title(?=[\s>])([^>]*)>/.exec(svgContent.slice(rootEnd))
+
+  if (!titleMatch && !has('aria-label') && !has('aria-labelledby')) {
+    const labelAttributes: Record<string, string> = has('role') ? {} : { role: 'img' }
+    labelAttributes['aria-label'] = label
+
+    issues.push({
+      rule: 'a11y-missing-name',
+      message: 'SVG has no accessible name, add a <title> or aria-label, or hide it with aria-hidden="true" if it is decorative',
+      start: rootStart,
+      end: rootEnd,
+      fixes: [
+        insertAttributes('Mark SVG as decorative (aria-hidden)', insertAt, { 'aria-hidden': 'true' }, options),
+        insertAttributes('Add role="img" and aria-label', insertAt, labelAttributes, options)
+      ]
+    })
+    return
+  }
+
+  if (!has('role')) {
+    issues.push({
+      rule: 'a11y-missing-role',
+      message: 'Meaningful SVG should have role="img" so screen readers announce it as an image',
+      start: rootStart,
+      end: rootEnd,
+      fixes: [insertAttributes('Add role="img"', insertAt, { role: 'img' }, options)]
+    })
+  }
+
+  if (titleMatch && !has('aria-labelledby')) {
+    const titleStart = rootEnd + titleMatch.index
+    const titleId = titleMatch[1].match(/\sid\s*=\s*["']([^"']+)["']/)?.[1]
+    const rootId = openTag.match(/\sid\s*=\s*["']([^"']+)["']/)?.[1]
+    const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'svg'
+    const id = titleId ?? `${rootId ?? (options.index === undefined ? slug : `${slug}-${options.index + 1}`)}-title`
+
+    const fix = insertAttributes('Link <title> with aria-labelledby', insertAt, { 'aria-labelledby': id }, options)
+    if (!titleId) {
+      fix.edits.push({ start: titleStart + 6, end: titleStart + 6, newText: ` id="${id}"` })
+    }
+
+    issues.push({
+      rule: 'a11y-title-not-linked',
+      message: '<title> is not referenced by aria-labelledby, some screen readers will not announce it',
+      start: titleStart,
+      end: titleStart + titleMatch[0].length,
+      fixes: [fix]
+    })
+  }
+}
+
+/**
+ * Checks an SVG (a whole file or an inline block) for common problems.
+ * Offsets of the returned issues are relative to `svgContent`
+ */
+export function lintSvg (svgContent: string, options: SvgLintOptions = {}): SvgLintIssue[] {
+  const issues: SvgLintIssue[] = []
+
+  lintRoot(svgContent, options, issues)
+  lintRasterImages(svgContent, issues)
+  lintUnusedDefs(svgContent, issues)
+  lintIds(svgContent, issues)
+  lintPrecision(svgContent, options.maxPrecision ?? 3, issues)
+  lintAccessibility(svgContent, options, issues)
+
+  return issues
+}
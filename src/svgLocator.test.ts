@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { findSvgBlocks, LocatableDocument, moveThroughEdits, SvgLocator } from './svgLocator'
+
+const contents = (text: string, languageId?: string) => findSvgBlocks(text, languageId).map(block => block.content)
+
+describe('findSvgBlocks', () => {
+    it('should find the outermost SVG of nested ones', () => {
+        const text = '<div><svg viewBox="0 0 2 1"><svg x="1"><path/></svg><svg x="0"/></svg></div><svg><g/></svg>'
+        assert.deepStrictEqual(contents(text), [
+            '<svg viewBox="0 0 2 1"><svg x="1"><path/></svg><svg x="0"/></svg>',
+            '<svg><g/></svg>'
+        ])
+    })
+
+    it('should find self-closing SVGs and react-native-svg ones', () => {
+        assert.deepStrictEqual(contents('<svg />\n<Svg width={24}><Path d="M0 0" /></Svg>'), ['<svg />', '<Svg width={24}><Path d="M0 0" /></Svg>'])
+    })
+
+    it('should ignore components and custom elements named like svg', () => {
+        assert.deepStrictEqual(contents('<svgIcon name="a"></svgIcon><svg-icon></svg-icon><SvgLogo />'), [])
+    })
+
+    it('should skip expressions with > in the opening tag', () => {
+        const text = 'const Icon = () => <svg width={size > 16 ? 24 : 16}><path /></svg>'
+        assert.deepStrictEqual(contents(text, 'typescriptreact'), ['<svg width={size > 16 ? 24 : 16}><path /></svg>'])
+    })
+
+    it('should skip comments and string literals that do not hold the whole SVG', () => {
+        const script = `// <svg> in a comment
+const isSvg = text.startsWith('<svg')
+/* <svg></svg> */
+const icon = '<svg viewBox="0 0 24 24"><path d="M0 0" /></svg>'
+const Icon = () => <p>Don't <svg><path /></svg></p>
+`
+        assert.deepStrictEqual(contents(script, 'typescriptreact'), [
+            '<svg viewBox="0 0 24 24"><path d="M0 0" /></svg>',
+            '<svg><path /></svg>'
+        ])
+
+        const html = '<!-- <svg> --><svg><!-- </svg> --><g/></svg>'
+        assert.deepStrictEqual(contents(html), ['<svg><!-- </svg> --><g/></svg>'])
+    })
+
+    it('should read the scripts of components as scripts', () => {
+        const vue = '<template>\n  <svg><path/></svg>\n</template>\n<script setup>\nconst re = "<svg"\n</script>\n<p>It\'s <svg/></p>'
+        assert.deepStrictEqual(contents(vue, 'vue'), ['<svg><path/></svg>', '<svg/>'])
+    })
+})
+
+describe('SvgLocator', () => {
+    const createDocument = (text: string, version = 1): LocatableDocument => ({
+        uri: { toString: () => 'file:///icons.tsx' },
+        version,
+        languageId: 'typescriptreact',
+        getText: () => text
+    })
+
+    it('should locate typed blocks once per version', () => {
+        let located = 0
+        const locator = new SvgLocator(() => {
+            located++
+            return 'react'
+        })
+        const text = '<div><svg width={size}><path/></svg> <svg><g/></svg></div>'
+
+        const blocks = locator.getBlocks(createDocument(text))
+        assert.deepStrictEqual(blocks.map(({ dynamic, dialect }) => ({ dynamic, dialect })), [
+            { dynamic: true, dialect: 'react' },
+            { dynamic: false, dialect: 'react' }
+        ])
+        assert.strictEqual(locator.getBlocks(createDocument(text)), blocks)
+        assert.notStrictEqual(locator.getBlocks(createDocument(text, 2)), blocks)
+        assert.strictEqual(located, 2)
+    })
+
+    it('should find the block at an offset', () => {
+        const locator = new SvgLocator(() => 'react')
+        const text = '<svg></svg> text <svg><path/></svg>'
+        const document = createDocument(text)
+        const second = text.lastIndexOf('<svg')
+
+        assert.strictEqual(locator.findBlockAt(document, 0)?.start, 0)
+        assert.strictEqual(locator.findBlockAt(document, 11)?.start, 0)
+        assert.strictEqual(locator.findBlockAt(document, 12), undefined)
+        assert.strictEqual(locator.findBlockAt(document, second + 3, text.length)?.start, second)
+        assert.strictEqual(locator.findBlockAt(document, 3, second + 1), undefined)
+    })
+})
+
+describe('moveThroughEdits', () => {
+    const ranges = [{ start: 10, end: 20 }, { start: 30, end: 40 }, { start: 50, end: 60 }]
+
+    it('should move the ranges after the edits and drop the ones they touch', () => {
+        // Edits of one event, in any order and relative to the text before it
+        const edits = [
+            { rangeOffset: 45, rangeLength: 0, text: 'abc' },
+            { rangeOffset: 2, rangeLength: 4, text: '' },
+            { rangeOffset: 35, rangeLength: 1, text: 'x' }
+        ]
+        assert.deepStrictEqual(moveThroughEdits(ranges, edits), [{ start: 6, end: 16 }, { start: 49, end: 59 }])
+    })
+
+    it('should keep ranges an edit only borders', () => {
+        const edits = [{ rangeOffset: 20, rangeLength: 10, text: '\n' }]
+        assert.deepStrictEqual(moveThroughEdits(ranges, edits), [{ start: 10, end: 20 }, { start: 21, end: 31 }, { start: 41, end: 51 }])
+        assert.deepStrictEqual(moveThroughEdits(ranges, [{ rangeOffset: 15, rangeLength: 20, text: '' }]), [{ start: 30, end: 40 }])
+    })
+})
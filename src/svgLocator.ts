@@ -0,0 +1,316 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getDialectOptions, SvgDialect } from './dialects'
+import { hasDynamicContent } from './svgTransform'
+import type { SvgBlock } from './utils'
+
+/**
+ * Inline SVG of a document, with what the commands and previews need to know about it
+ */
+export interface LocatedSvgBlock extends SvgBlock {
+  dialect: SvgDialect
+  /**
+   * Contains expressions, bindings or template tags, so it does not render as written
+   */
+  dynamic: boolean
+}
+
+/**
+ * What the locator needs from a document, `vscode.TextDocument` being one
+ */
+export interface LocatableDocument {
+  readonly uri: { toString (): string }
+  readonly version: number
+  readonly languageId: string
+  getText (): string
+}
+
+// Languages whose comments and string literals are skipped, an SVG inside a string must be complete in it
+const SCRIPT_LANGUAGES = ['javascript', 'javascriptreact', 'typescript', 'typescriptreact']
+
+/**
+ * Whether `<name` at `index` opens the element, and not a longer name like `<svgIcon` or `<svg-icon`
+ */
+function isTagStart (text: string, index: number, name: string): boolean {
+  return text.startsWith(`<${name}`, index) && /^[\s/>]/.test(text[index + name.length + 1] ?? '')
+}
+
+/**
+ * Finds the end of the opening tag at `index`, past quoted values and `{expressions}`.
+ * Returns -1 if the tag is not closed
+ */
+function scanOpeningTag (text: string, index: number, end: number): { end: number, selfClosing: boolean } | -1 {
+  let depth = 0
+  let i = index + 1
+
+  while (i < end) {
+    const char = text[i]
+
+    if (char === '"' || char === '\'') {
+      const close = text.indexOf(char, i + 1)
+      if (close === -1 || close >= end) {
+        return -1
+      }
+      i = close + 1
+    } else if (char === '{') {
+      depth++
+      i++
+    } else if (char === '}') {
+      depth = Math.max(0, depth - 1)
+      i++
+    } else if (char === '>' && depth === 0) {
+      return { end: i + 1, selfClosing: text[i - 1] === '/' }
+    } else {
+      i++
+    }
+  }
+
+  return -1
+}
+
+/**
+ * Finds the end of the `<svg>` element at `index`, with nested SVGs of the same name and comments skipped.
+ * Returns -1 if it is not closed before `end`
+ */
+function scanSvgElement (text: string, index: number, end: number, name: string): number {
+  let depth = 0
+  let i = index
+
+  while (i < end) {
+    if (text[i] !== '<') {
+      const next = text.indexOf('<', i)
+      i = next === -1 ? end : next
+    } else if (text.startsWith('<!--', i)) {
+      const close = text.indexOf('-->', i + 4)
+      i = close === -1 ? end : close + 3
+    } else if (isTagStart(text, i, name)) {
+      const tag = scanOpeningTag(text, i, end)
+      if (tag === -1) {
+        return -1
+      }
+      if (!tag.selfClosing) {
+        depth++
+      }
+      if (depth === 0) {
+        return tag.end
+      }
+      i = tag.end
+    } else if (text.startsWith(`</${name}`, i)) {
+      const close = text.slice(i, i + name.length + 20).match(new RegExp(`^</${name}\\s*>`))
+      if (!close) {
+        i++
+        continue
+      }
+      depth--
+      i += close[0].length
+      if (depth === 0) {
+        return i
+      }
+    } else {
+      i++
+    }
+  }
+
+  return -1
+}
+
+/**
+ * Skips a string literal that closes on the same line. Returns -1 for a lone quote, like the apostrophe of JSX text
+ */
+function skipStringLiteral (text: string, index: number, end: number): number {
+  const quote = text[index]
+  let i = index + 1
+
+  while (i < end && text[i] !== '\n') {
+    if (text[i] === '\\') {
+      i += 2
+    } else if (text[i] === quote) {
+      return i + 1
+    } else {
+      i++
+    }
+  }
+
+  return -1
+}
+
+function scanRegion (text: string, start: number, end: number, script: boolean, blocks: SvgBlock[]) {
+  let i = start
+
+  while (i < end) {
+    const char = text[i]
+
+    if (char !== '<' && !(script && '/"\'`'.includes(char))) {
+      i++
+      continue
+    }
+
+    if (text.startsWith('<!--', i)) {
+      const close = text.indexOf('-->', i + 4)
+      i = close === -1 ? end : close + 3
+      continue
+    }
+
+    if (script && (text.startsWith('//', i) || text.startsWith('/*', i))) {
+      const lineComment = text[i + 1] === '/'
+      const close = text.indexOf(lineComment ? '\n' : '*/', i + 2)
+      i = close === -1 ? end : close + (lineComment ? 0 : 2)
+      continue
+    }
+
+    if (script && (char === '"' || char === '\'' || char === '`')) {
+      const stringEnd = char === '`' ? text.indexOf('`', i + 1) + 1 : skipStringLiteral(text, i, end)
+      if (stringEnd > 0 && stringEnd <= end) {
+        scanRegion(text, i + 1, stringEnd - 1, false, blocks)
+        i = stringEnd
+        continue
+      }
+    }
+
+    const name = isTagStart(text, i, 'svg') ? 'svg' : isTagStart(text, i, 'Svg') ? 'Svg' : undefined
+    if (name) {
+      const blockEnd = scanSvgElement(text, i, end, name)
+      if (blockEnd !== -1) {
+        blocks.push({ start: i, end: blockEnd, content: text.slice(i, blockEnd) })
+        i = blockEnd
+        continue
+      }
+    }
+
+    // Scripts of Vue, Svelte and Astro components and HTML pages
+    if (!script && isTagStart(text, i, 'script')) {
+      const tag = scanOpeningTag(text, i, end)
+      const close = tag === -1 || tag.selfClosing ? -1 : text.indexOf('</script', tag.end)
+      if (tag !== -1 && close !== -1 && close < end) {
+        scanRegion(text, tag.end, close, true, blocks)
+        i = close
+        continue
+      }
+    }
+
+    i++
+  }
+}
+
+/**
+ * Finds the outermost `<svg>...</svg>` elements of a document (self-closing `<svg />` included),
+ * and the `<Svg>...</Svg>` ones of react-native-svg. Comments are skipped, and so are
+ * the string literals of scripts unless the whole SVG is inside one
+ */
+export function findSvgBlocks (text: string, languageId = 'html'): SvgBlock[] {
+  const blocks: SvgBlock[] = []
+  scanRegion(text, 0, text.length, SCRIPT_LANGUAGES.includes(languageId), blocks)
+  return blocks
+}
+
+/**
+ * Locates the inline SVGs of a document
+ */
+export function locateSvgBlocks (text: string, languageId: string, dialect: SvgDialect): LocatedSvgBlock[] {
+  const options = getDialectOptions(dialect)
+
+  return findSvgBlocks(text, languageId).map(block => ({
+    ...block,
+    dialect,
+    dynamic: hasDynamicContent(block.content, options)
+  }))
+}
+
+/**
+ * An edit of a document, `vscode.TextDocumentContentChangeEvent` being one
+ */
+export interface OffsetEdit {
+  readonly rangeOffset: number
+  readonly rangeLength: number
+  readonly text: string
+}
+
+/**
+ * Moves sorted ranges along with the edits of a change event, whose offsets all refer to the text before it.
+ * Ranges the edits touch are dropped, the others keep their content
+ */
+export function moveThroughEdits<Range extends { start: number, end: number }> (ranges: Range[], edits: readonly OffsetEdit[]): Range[] {
+  const sorted = [...edits].sort((a, b) => a.rangeOffset - b.rangeOffset)
+  const moved: Range[] = []
+  let index = 0
+  let delta = 0
+
+  for (const range of ranges) {
+    while (index < sorted.length && sorted[index].rangeOffset + sorted[index].rangeLength <= range.start) {
+      delta += sorted[index].text.length - sorted[index].rangeLength
+      index++
+    }
+
+    if (index < sorted.length && sorted[index].rangeOffset < range.end) {
+      continue
+    }
+
+    moved.push(delta === 0 ? range : { ...range, start: range.start + delta, end: range.end + delta })
+  }
+
+  return moved
+}
+
+/**
+ * Locates the inline SVGs of documents once per document version, for the hover, gutter icons and commands
+ */
+export class SvgLocator<Document extends LocatableDocument = LocatableDocument> {
+  private readonly cache = new Map<string, { version: number, blocks: LocatedSvgBlock[] }>()
+
+  constructor (private readonly getDialect: (document: Document) => SvgDialect) {}
+
+  getBlocks (document: Document): LocatedSvgBlock[] {
+    const key = document.uri.toString()
+    const cached = this.cache.get(key)
+    if (cached && cached.version === document.version) {
+      return cached.blocks
+    }
+
+    const blocks = locateSvgBlocks(document.getText(), document.languageId, this.getDialect(document))
+    this.cache.set(key, { version: document.version, blocks })
+    return blocks
+  }
+
+  /**
+   * Finds the SVG containing the `start`-`end` range (the end of the SVG included) with a binary search
+   */
+  findBlockAt (document: Document, start: number, end = start): LocatedSvgBlock | undefined {
+    const blocks = this.getBlocks(document)
+    let low = 0
+    let high = blocks.length - 1
+
+    while (low <= high) {
+      const middle = (low + high) >> 1
+      if (blocks[middle].start <= start) {
+        low = middle + 1
+      } else {
+        high = middle - 1
+      }
+    }
+
+    const block = blocks[high]
+    return block && start <= block.end && end <= block.end ? block : undefined
+  }
+
+  delete (uri: { toString (): string }) {
+    this.cache.delete(uri.toString())
+  }
+
+  clear () {
+    this.cache.clear()
+  }
+}
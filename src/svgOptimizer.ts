@@ -0,0 +1,192 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { optimize, builtinPlugins } from 'svgo/browser'
+import type { Config, PluginConfig } from 'svgo/browser'
+import {
+  prepareForOptimization,
+  finalizeAfterOptimization,
+  convertJsxToSvg,
+  OptimizationOptions
+} from './svgTransform'
+import { getDialectOptions, resolveDialect, SvgDialect } from './dialects'
+import { formatSvg, restoreAttributeOrder } from './svgFormatter'
+
+/**
+ * Transform options for SVGs embedded in a document of the given language,
+ * written for the framework of its project when known
+ */
+export function getTransformOptions (languageId: string, projectDialect?: SvgDialect): OptimizationOptions {
+  return getDialectOptions(resolveDialect(languageId, projectDialect))
+}
+
+/**
+ * Indentation the optimized SVG is laid out with, one element per line
+ */
+export interface InlineLayout {
+  indent: string
+  /**
+   * Indentation of the line the SVG starts on in its host document
+   */
+  baseIndent: string
+}
+
+export interface InlineOptimizationResult {
+  /**
+   * Plain SVG given to SVGO (JSX syntax converted and protected)
+   */
+  preparedSvg: string
+  /**
+   * Plain SVG returned by SVGO
+   */
+  optimizedSvg: string
+  /**
+   * Optimized SVG converted back to the syntax of the host document
+   */
+  finalSvg: string
+}
+
+/**
+ * Runs an inline SVG (JSX, Vue, Svelte, Astro...) through
+ * prepareForOptimization → SVGO → finalizeAfterOptimization, keeping every intermediate step.
+ * With a layout, the optimized SVG is put back one element per line instead of on a single one
+ */
+export function runInlineOptimization (
+  svgContent: string,
+  languageId: string,
+  config: Config,
+  projectDialect?: SvgDialect,
+  layout?: InlineLayout
+): InlineOptimizationResult {
+  const options = getTransformOptions(languageId, projectDialect)
+
+  // Prepare SVG for optimization (convert JSX to valid SVG if needed)
+  const { preparedSvg, wasJsx } = prepareForOptimization(svgContent, options)
+
+  const result = optimize(preparedSvg, config)
+
+  // sortAttrs must not move attributes across spreads, which decide whether props override them
+  const optimizedSvg = wasJsx ? restoreAttributeOrder(preparedSvg, result.data) : result.data
+
+  // Attributes stay as SVGO wrote them, only the elements are laid out
+  const laidOutSvg = layout
+    ? formatSvg(optimizedSvg, { ...layout, wrapAttributes: 'never', maxLineLength: Infinity, sortAttributes: false })
+    : optimizedSvg
+
+  // Convert back to JSX if the original was JSX
+  const finalSvg = finalizeAfterOptimization(laidOutSvg, wasJsx, options)
+
+  return { preparedSvg, optimizedSvg, finalSvg }
+}
+
+function getPluginName (plugin: PluginConfig): string {
+  return typeof plugin === 'string' ? plugin : plugin.name
+}
+
+/**
+ * Names of the plugins run by a builtin preset, or undefined if the plugin is not a preset
+ */
+function getPresetPluginNames (name: string): string[] | undefined {
+  const preset = builtinPlugins.find(builtin => builtin.name === name)
+  if (!preset || !('isPreset' in preset) || !preset.isPreset) {
+    return undefined
+  }
+  return (preset.plugins ?? []).map(presetPlugin => presetPlugin.name)
+}
+
+/**
+ * Lists the plugins of a config one by one, with presets expanded into the plugins they run
+ * (minus the ones disabled through `overrides`). Defaults to `preset-default` like SVGO does
+ */
+export function expandPlugins (config: Config): PluginConfig[] {
+  const expanded: PluginConfig[] = []
+
+  for (const plugin of config.plugins ?? ['preset-default']) {
+    const presetNames = getPresetPluginNames(getPluginName(plugin))
+    if (!presetNames) {
+      expanded.push(plugin)
+      continue
+    }
+
+    const overrides: Record<string, unknown> = (typeof plugin === 'object' && (plugin.params as any)?.overrides) || {}
+
+    for (const presetName of presetNames) {
+      const override = overrides[presetName]
+      if (override === false) {
+        continue
+      }
+
+      expanded.push((override && typeof override === 'object'
+        ? { name: presetName, params: override }
+        : presetName) as PluginConfig)
+    }
+  }
+
+  return expanded
+}
+
+/**
+ * Returns a copy of the config without the given plugins. Plugins inside presets are turned off through `overrides`
+ */
+export function disablePlugins (config: Config, names: string[]): Config {
+  const plugins: PluginConfig[] = []
+
+  for (const plugin of config.plugins ?? ['preset-default']) {
+    const name = getPluginName(plugin)
+    if (names.includes(name)) {
+      continue
+    }
+
+    const presetNames = getPresetPluginNames(name)
+    if (!presetNames) {
+      plugins.push(plugin)
+      continue
+    }
+
+    const params: any = typeof plugin === 'object' ? { ...plugin.params } : {}
+    params.overrides = { ...params.overrides }
+
+    for (const disabled of names.filter(disabledName => presetNames.includes(disabledName))) {
+      params.overrides[disabled] = false
+    }
+
+    plugins.push({ name, params } as PluginConfig)
+  }
+
+  return { ...config, plugins }
+}
+
+/**
+ * Checks that an SVG can be parsed. Inline SVGs are converted back to plain SVG first,
+ * and any leftover placeholder from the JSX round-trip is considered invalid
+ */
+export function isValidSvg (svgContent: string, languageId = 'svg', projectDialect?: SvgDialect): boolean {
+  let content = svgContent
+
+  if (languageId !== 'svg') {
+    if (/data-better-svg-temp-|__JSX_BASE64__|__JSX_RAW__/.test(content)) {
+      return false
+    }
+    content = convertJsxToSvg(content, getTransformOptions(languageId, projectDialect))
+  }
+
+  try {
+    optimize(content, { plugins: [] })
+    return true
+  } catch {
+    return false
+  }
+}
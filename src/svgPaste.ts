@@ -0,0 +1,98 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import { optimize } from 'svgo/browser'
+import { SUPPORTED_LANGUAGES } from './consts'
+import { resolveSvgoConfig } from './svgoConfig'
+import { getDocumentTransformOptions } from './projectDialect'
+import { convertMarkupToJsx, extractSvgMarkup, isJsxSvg } from './svgTransform'
+
+/**
+ * Offers to paste SVG markup copied from design tools and icon sites as JSX, optimized or plain,
+ * without its XML declaration and doctype
+ */
+export class SvgPasteEditProvider implements vscode.DocumentPasteEditProvider {
+  // Created here rather than as static fields, the API does not exist before VS Code 1.97
+  private readonly jsxKind = vscode.DocumentDropOrPasteEditKind.Text.append('betterSvg', 'jsx')
+  private readonly optimizedKind = vscode.DocumentDropOrPasteEditKind.Text.append('betterSvg', 'optimized')
+  private readonly plainKind = vscode.DocumentDropOrPasteEditKind.Text.append('betterSvg', 'plain')
+
+  get providedPasteEditKinds (): vscode.DocumentDropOrPasteEditKind[] {
+    return [this.jsxKind, this.optimizedKind, this.plainKind]
+  }
+
+  async provideDocumentPasteEdits (
+    document: vscode.TextDocument,
+    _ranges: readonly vscode.Range[],
+    dataTransfer: vscode.DataTransfer,
+    _context: vscode.DocumentPasteEditContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.DocumentPasteEdit[] | undefined> {
+    const text = await dataTransfer.get('text/plain')?.asString()
+    const svg = text && extractSvgMarkup(text)
+    // Markup already written for a framework is pasted as is (CSS at-rules would look like directives)
+    if (!svg || isJsxSvg(svg.replace(/<style[\s\S]*?<\/style>/g, '')) || token.isCancellationRequested) {
+      return undefined
+    }
+
+    const options = getDocumentTransformOptions(document)
+    const toHost = (markup: string) => options.jsx ? convertMarkupToJsx(markup, options) : markup
+
+    const edits: vscode.DocumentPasteEdit[] = []
+    if (options.jsx) {
+      edits.push(new vscode.DocumentPasteEdit(toHost(svg), 'Paste SVG as JSX', this.jsxKind))
+    }
+
+    try {
+      const { config } = await resolveSvgoConfig(document.uri, { inline: true })
+      const { data } = optimize(svg, config)
+      edits.push(new vscode.DocumentPasteEdit(toHost(data), 'Paste optimized SVG', this.optimizedKind))
+    } catch {
+      // Without a working SVGO config the other options are still useful
+    }
+
+    if (token.isCancellationRequested) {
+      return undefined
+    }
+
+    const plain = new vscode.DocumentPasteEdit(svg, 'Paste SVG as plain markup', this.plainKind)
+    // In JSX files plain markup does not compile, so it is only the default elsewhere
+    if (options.jsx) {
+      edits.push(plain)
+    } else {
+      edits.unshift(plain)
+    }
+
+    return edits
+  }
+}
+
+/**
+ * Registers the paste provider when the VS Code version supports paste edits
+ */
+export function registerSvgPasteEditProvider (): vscode.Disposable | undefined {
+  if (typeof vscode.languages.registerDocumentPasteEditProvider !== 'function') {
+    return undefined
+  }
+
+  const provider = new SvgPasteEditProvider()
+  return vscode.languages.registerDocumentPasteEditProvider(
+    SUPPORTED_LANGUAGES.map(lang => ({ language: lang })),
+    provider,
+    { providedPasteEditKinds: provider.providedPasteEditKinds, pasteMimeTypes: ['text/plain'] }
+  )
+}
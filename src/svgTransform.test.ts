@@ -7,7 +7,12 @@ import {
   prepareForOptimization,
   finalizeAfterOptimization,
   jsxToSvgAttributeMap,
-  svgToJsxAttributeMap
+  svgToJsxAttributeMap,
+  hasDynamicContent,
+  toStandaloneSvg,
+  isReactNativeSvg,
+  extractSvgMarkup,
+  convertMarkupToJsx
 } from './svgTransform'
 
 describe('isJsxSvg', () => {
@@ -270,6 +275,23 @@ describe('attribute maps', () => {
       assert.ok(attr in jsxToSvgAttributeMap, `${attr} should be in jsxToSvgAttributeMap`)
     }
   })
+
+  it('should include font, text and namespaced attributes', () => {
+    const attrs = ['fontVariant', 'glyphOrientationVertical', 'textRendering', 'unicodeBidi', 'xlinkHref', 'xmlSpace', 'xmlnsXlink', 'vAlphabetic']
+    for (const attr of attrs) {
+      assert.ok(attr in jsxToSvgAttributeMap, `${attr} should be in jsxToSvgAttributeMap`)
+    }
+  })
+
+  it('should convert common misspellings of stroke attributes', () => {
+    const input = '<svg strokeDashArray="4 2" strokeLineCap="round"><path /></svg>'
+    assert.strictEqual(convertJsxToSvg(input), '<svg stroke-dasharray="4 2" stroke-linecap="round"><path /></svg>')
+  })
+
+  it('should not protect v-* SVG attributes as Vue directives', () => {
+    const input = '<font-face v-alphabetic="0" />'
+    assert.strictEqual(convertJsxToSvg(input, { useCamelCase: false }), input)
+  })
 })
 
 describe('edge cases', () => {
@@ -474,9 +496,9 @@ describe('Regressions & Edge Cases', () => {
         
         const { preparedSvg, wasJsx } = prepareForOptimization(input)
         
-        // Check intermediate state: style should be hidden from SVGO
-        assert.ok(preparedSvg.includes('data-better-svg-temp-style='), 'Style should be renamed')
-        assert.ok(!preparedSvg.includes(' style='), 'Original style attribute should be gone')
+        // Check intermediate state: the literal object is handed to SVGO as CSS
+        assert.ok(preparedSvg.includes('style="color:red;margin-top:10px"'), 'Style should be converted to CSS')
+        assert.ok(preparedSvg.includes('data-better-svg-style-object="double"'), 'Style object marker should be added')
 
         // Simulate SVGO
         const optimizedSvg = preparedSvg 
@@ -494,7 +516,7 @@ describe('Regressions & Edge Cases', () => {
         const { preparedSvg, wasJsx } = prepareForOptimization(input)
         
         // Verify key protections
-        assert.ok(preparedSvg.includes('data-better-svg-temp-style='))
+        assert.ok(preparedSvg.includes('style="color:red"'))
         // strokeWidth={2} -> encoded
         // className={className} -> encoded className with Base64
         // The original string has strokeWidth="2" (string), not expression {2}. 
@@ -614,3 +636,198 @@ describe('Complex Components', () => {
 
 
 
+
+describe('Standalone conversion', () => {
+    it('should detect dynamic content', () => {
+        assert.strictEqual(hasDynamicContent('<svg width={size}><path /></svg>'), true)
+        assert.strictEqual(hasDynamicContent('<svg {...props}><path /></svg>'), true)
+        assert.strictEqual(hasDynamicContent('<svg :width="size"></svg>', { useCamelCase: false }), true)
+        assert.strictEqual(hasDynamicContent('<svg className="icon"><path strokeWidth="2" /></svg>'), false)
+    })
+
+    it('should convert static JSX to a standalone SVG', () => {
+        const input = '<svg className="icon" viewBox="0 0 24 24"><path strokeWidth="2" /></svg>'
+        const expected = '<svg xmlns="http://www.w3.org/2000/svg" class="icon" viewBox="0 0 24 24"><path stroke-width="2" /></svg>'
+        assert.strictEqual(toStandaloneSvg(input), expected)
+    })
+
+    it('should drop dynamic attributes, spreads and interpolations', () => {
+        const input = '<svg width={size} {...props} viewBox="0 0 24 24"><text>{label}</text></svg>'
+        const expected = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><text></text></svg>'
+        assert.strictEqual(toStandaloneSvg(input), expected)
+    })
+})
+
+describe('Tokenizer round trip', () => {
+    const roundTrip = (input: string, options = { useCamelCase: true }) => {
+        const { preparedSvg, wasJsx } = prepareForOptimization(input, options)
+        return { preparedSvg, output: finalizeAfterOptimization(preparedSvg, wasJsx, options) }
+    }
+
+    it('should handle template literals containing }', () => {
+        // Split so the placeholder is not taken for a misplaced template expression
+        const input = '<svg className={`icon $' + '{active ? "on" : "off"} }`}><path /></svg>'
+        const { preparedSvg, output } = roundTrip(input)
+        assert.ok(preparedSvg.startsWith('<svg data-better-svg-temp-class="__JSX_BASE64__'), preparedSvg)
+        assert.strictEqual(output, input)
+    })
+
+    it('should handle conditional JSX children', () => {
+        const input = '<svg>{cond && <path d="M0 0" />}<circle r="1" /></svg>'
+        const { preparedSvg, output } = roundTrip(input)
+        assert.ok(!preparedSvg.includes('<path'), 'Nested JSX should be hidden from SVGO')
+        assert.ok(preparedSvg.includes('<circle r="1" />'))
+        assert.strictEqual(output, input)
+    })
+
+    it('should handle mapped children with nested expressions', () => {
+        const input = '<svg>{items.map(item => <circle key={item.id} cx={item.x} r="1" />)}</svg>'
+        assert.strictEqual(roundTrip(input).output, input)
+    })
+
+    it('should handle > and < inside expressions', () => {
+        const input = '<svg><circle r={r > 2 ? 1 : 0} /><text>{a < b ? "lt" : "ge"}</text></svg>'
+        const { preparedSvg, output } = roundTrip(input)
+        assert.ok(preparedSvg.includes('<circle data-better-svg-temp-r="__JSX_BASE64__'), preparedSvg)
+        assert.strictEqual(output, input)
+    })
+
+    it('should not treat quotes in nested JSX text as strings', () => {
+        const input = '<svg>{open ? <text>it\'s open</text> : null}<path d="M0 0" /></svg>'
+        assert.strictEqual(roundTrip(input).output, input)
+    })
+
+    it('should preserve comments byte-for-byte', () => {
+        const input = '<svg\n  // line comment\n  width="24"\n  /* block */ height="24"\n>\n  {/* brace } inside */}\n  <path d="M0 0" />\n</svg>'
+        const { preparedSvg, output } = roundTrip(input)
+        assert.ok(!preparedSvg.includes('//') && !preparedSvg.includes('/*'), preparedSvg)
+        assert.strictEqual(output, input)
+    })
+
+    it('should preserve spreads written with spaces', () => {
+        const input = '<svg { ...props }><path /></svg>'
+        assert.strictEqual(roundTrip(input).output, input)
+    })
+
+    it('should leave CSS braces in <style> alone', () => {
+        const input = '<svg><style>.a{fill:red}</style><path class="a" /></svg>'
+        assert.strictEqual(convertJsxToSvg(input, { useCamelCase: false }), input)
+    })
+
+    it('should restore directive values containing double quotes', () => {
+        const input = '<svg @click=\'say("hi")\'></svg>'
+        const options = { useCamelCase: false }
+        const { preparedSvg, wasJsx } = prepareForOptimization(input, options)
+        // SVGO re-quotes attribute values with double quotes
+        const optimized = preparedSvg.replace('\'say("hi")\'', '"say(&quot;hi&quot;)"')
+        assert.strictEqual(finalizeAfterOptimization(optimized, wasJsx, options), input)
+    })
+
+    it('should restore placeholders anywhere in text content', () => {
+        const { preparedSvg, output } = roundTrip('<svg><text>Hello {name}, {count} items</text></svg>')
+        assert.strictEqual(convertSvgToJsx(preparedSvg), output)
+        assert.strictEqual(output, '<svg><text>Hello {name}, {count} items</text></svg>')
+    })
+})
+
+describe('Style objects', () => {
+    it('should hand literal style objects to SVGO as CSS', () => {
+        const input = '<svg style={{ fillOpacity: 0.5, marginTop: 10, WebkitMask: \'none\' }}><path /></svg>'
+        const { preparedSvg } = prepareForOptimization(input)
+        assert.strictEqual(preparedSvg, '<svg style="fill-opacity:0.5;margin-top:10px;-webkit-mask:none" data-better-svg-style-object="single"><path /></svg>')
+    })
+
+    it('should convert the optimized CSS back to an object', () => {
+        const { preparedSvg, wasJsx } = prepareForOptimization('<svg style={{ color: \'#ff0000\', opacity: 1 }}><path /></svg>')
+        // Simulate SVGO minifying the style and moving the marker around
+        const optimized = preparedSvg
+            .replace('style="color:#ff0000;opacity:1" data-better-svg-style-object="single"', 'data-better-svg-style-object="single" style="color:red;opacity:1"')
+        assert.strictEqual(finalizeAfterOptimization(optimized, wasJsx), '<svg style={{ color: \'red\', opacity: 1 }}><path /></svg>')
+    })
+
+    it('should keep dynamic style objects protected', () => {
+        const input = '<svg style={{ color, marginTop: gap * 2 }}><path /></svg>'
+        const { preparedSvg, wasJsx } = prepareForOptimization(input)
+        assert.ok(preparedSvg.includes('data-better-svg-temp-style='), preparedSvg)
+        assert.strictEqual(finalizeAfterOptimization(preparedSvg, wasJsx), input)
+    })
+
+    it('should drop the marker from standalone SVGs', () => {
+        const output = toStandaloneSvg('<svg style={{ color: "red" }}><path /></svg>')
+        assert.strictEqual(output, '<svg xmlns="http://www.w3.org/2000/svg" style="color:red"><path /></svg>')
+    })
+})
+
+describe('React Native SVG', () => {
+    const input = '<Svg width={24} height={24} viewBox="0 0 24 24" {...props}>\n  <Defs>\n    <LinearGradient id="a"><Stop offset="0" stopColor="red" /></LinearGradient>\n  </Defs>\n  <G fill="url(#a)"><Path strokeWidth={2} d="M0 0h24" /></G>\n</Svg>'
+
+    it('should detect react-native-svg components', () => {
+        assert.strictEqual(isReactNativeSvg(input), true)
+        assert.strictEqual(isReactNativeSvg('<svg viewBox="0 0 24 24"></svg>'), false)
+        assert.strictEqual(isJsxSvg('<Svg viewBox="0 0 24 24"><Path d="M0 0" /></Svg>'), true)
+    })
+
+    it('should convert components to SVG elements', () => {
+        const { preparedSvg, wasJsx } = prepareForOptimization(input)
+        assert.strictEqual(wasJsx, true)
+        assert.ok(preparedSvg.startsWith('<svg data-better-svg-react-native="true" '), preparedSvg)
+        assert.ok(preparedSvg.includes('<linearGradient id="a"><stop offset="0" stop-color="red" /></linearGradient>'), preparedSvg)
+        assert.ok(preparedSvg.includes('<g fill="url(#a)"><path data-better-svg-temp-stroke-width='), preparedSvg)
+        assert.ok(preparedSvg.endsWith('</g>\n</svg>'), preparedSvg)
+    })
+
+    it('should round trip back to components', () => {
+        const { preparedSvg, wasJsx } = prepareForOptimization(input)
+        assert.strictEqual(finalizeAfterOptimization(preparedSvg, wasJsx), input)
+    })
+
+    it('should convert components in files that are not JSX', () => {
+        const { preparedSvg, wasJsx } = prepareForOptimization('<Svg viewBox="0 0 24 24"><Path strokeWidth="2" /></Svg>', { useCamelCase: false })
+        assert.strictEqual(preparedSvg, '<svg data-better-svg-react-native="true" viewBox="0 0 24 24"><path stroke-width="2" /></svg>')
+        // SVGO may move the marker
+        const optimized = '<svg viewBox="0 0 24 24" data-better-svg-react-native="true"><path stroke-width="2"/></svg>'
+        assert.strictEqual(finalizeAfterOptimization(optimized, wasJsx, { useCamelCase: false }), '<Svg viewBox="0 0 24 24"><Path strokeWidth="2"/></Svg>')
+    })
+
+    it('should leave lowercase elements of regular JSX alone', () => {
+        const jsx = '<svg viewBox="0 0 24 24"><Text /><path strokeWidth={2} /></svg>'
+        const { preparedSvg, wasJsx } = prepareForOptimization(jsx)
+        assert.ok(preparedSvg.includes('<Text />'), preparedSvg)
+        assert.strictEqual(finalizeAfterOptimization(preparedSvg, wasJsx), jsx)
+    })
+})
+
+describe('Pasted markup', () => {
+    it('should strip the XML declaration, doctype and generator comments', () => {
+        const pasted = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- Generator: Adobe Illustrator 27.0.0 -->
+<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M0 0h24"/></svg>
+`
+        assert.strictEqual(extractSvgMarkup(pasted), '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M0 0h24"/></svg>')
+    })
+
+    it('should only accept a single SVG element', () => {
+        assert.strictEqual(extractSvgMarkup('const icon = <svg></svg>'), undefined)
+        assert.strictEqual(extractSvgMarkup('<svg></svg>\n<svg></svg>'), undefined)
+        assert.strictEqual(extractSvgMarkup('<svgicon></svgicon>'), undefined)
+        assert.strictEqual(extractSvgMarkup('<svg viewBox="0 0 24 24"/>'), '<svg viewBox="0 0 24 24"/>')
+    })
+
+    it('should convert plain markup to valid JSX', () => {
+        const svg = '<svg class="icon" xmlns:xlink="http://www.w3.org/1999/xlink"><!-- arrow --><style>.a{fill:red}</style>' +
+            '<path stroke-width="2" style="fill:red;stroke-linecap:round"/><use xlink:href="#a"/></svg>'
+        assert.strictEqual(
+            convertMarkupToJsx(svg),
+            '<svg className="icon" xmlnsXlink="http://www.w3.org/1999/xlink">{/* arrow */}<style>{`.a{fill:red}`}</style>' +
+            '<path strokeWidth="2" style={{ fill: \'red\', strokeLinecap: \'round\' }}/><use xlinkHref="#a"/></svg>'
+        )
+    })
+
+    it('should keep style strings and SVG names for JSX runtimes that are not camelCase', () => {
+        assert.strictEqual(
+            convertMarkupToJsx('<svg class="icon"><path stroke-width="2" style="fill:red"/></svg>', { useCamelCase: false }),
+            '<svg class="icon"><path stroke-width="2" style="fill:red"/></svg>'
+        )
+    })
+})
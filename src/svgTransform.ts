@@ -14,16 +14,20 @@
  * limitations under the License.
  */
 
+import { cssToStyleObject, styleObjectToCss } from './styleObject'
+
 const BASE64_PREFIX = '__JSX_BASE64__'
 const BASE64_SUFFIX = '__'
+// Text restored verbatim instead of as a {expression}
+const RAW_PREFIX = '__JSX_RAW__'
 
-function encodeJsx (content: string): string {
-  return BASE64_PREFIX + Buffer.from(content).toString('base64') + BASE64_SUFFIX
+function encodeJsx (content: string, prefix = BASE64_PREFIX): string {
+  return prefix + Buffer.from(content).toString('base64') + BASE64_SUFFIX
 }
 
-function decodeJsx (content: string): string | null {
-  if (content.startsWith(BASE64_PREFIX) && content.endsWith(BASE64_SUFFIX)) {
-    const b64 = content.slice(BASE64_PREFIX.length, -BASE64_SUFFIX.length)
+function decodeJsx (content: string, prefix = BASE64_PREFIX): string | null {
+  if (content.startsWith(prefix) && content.endsWith(BASE64_SUFFIX)) {
+    const b64 = content.slice(prefix.length, -BASE64_SUFFIX.length)
     return Buffer.from(b64, 'base64').toString('utf-8')
   }
   return null
@@ -36,10 +40,28 @@ export interface OptimizationOptions {
    * Typically true for React/JSX, false for Astro/Vue/SVG.
    */
   useCamelCase?: boolean
+  /**
+   * Whether the host is JSX, so camelCase names and className are read even when useCamelCase is false
+   * (Solid, Qwik and Preact write the SVG names)
+   */
+  jsx?: boolean
+  /**
+   * Attributes owned by the host framework, on top of the Vue, Svelte and Astro directives
+   */
+  directives?: RegExp
+  /**
+   * Whether markup may be wrapped in `@if (...) { }` blocks (Angular control flow)
+   */
+  controlFlow?: boolean
+  /**
+   * Whether the host is a server template (Blade, Twig, Jinja, Handlebars, Go, ERB, PHP...)
+   * whose tags may appear anywhere: between elements, in tag position and inside attribute values
+   */
+  templateTags?: boolean
 }
 
 /**
- * Map of JSX camelCase attributes to SVG kebab-case attributes
+ * Map of JSX camelCase attributes to SVG attributes, the full table of SVG properties React DOM knows about
  */
 export const jsxToSvgAttributeMap: Record<string, string> = {
   // Stroke attributes
@@ -59,19 +81,56 @@ export const jsxToSvgAttributeMap: Record<string, string> = {
   // Font attributes
   fontFamily: 'font-family',
   fontSize: 'font-size',
+  fontSizeAdjust: 'font-size-adjust',
+  fontStretch: 'font-stretch',
   fontStyle: 'font-style',
+  fontVariant: 'font-variant',
   fontWeight: 'font-weight',
+  // Glyph and font face attributes
+  accentHeight: 'accent-height',
+  arabicForm: 'arabic-form',
+  capHeight: 'cap-height',
+  glyphName: 'glyph-name',
+  glyphOrientationHorizontal: 'glyph-orientation-horizontal',
+  glyphOrientationVertical: 'glyph-orientation-vertical',
+  horizAdvX: 'horiz-adv-x',
+  horizOriginX: 'horiz-origin-x',
+  overlinePosition: 'overline-position',
+  overlineThickness: 'overline-thickness',
+  panose1: 'panose-1',
+  strikethroughPosition: 'strikethrough-position',
+  strikethroughThickness: 'strikethrough-thickness',
+  underlinePosition: 'underline-position',
+  underlineThickness: 'underline-thickness',
+  unicodeRange: 'unicode-range',
+  unitsPerEm: 'units-per-em',
+  vAlphabetic: 'v-alphabetic',
+  vHanging: 'v-hanging',
+  vIdeographic: 'v-ideographic',
+  vMathematical: 'v-mathematical',
+  vertAdvY: 'vert-adv-y',
+  vertOriginX: 'vert-origin-x',
+  vertOriginY: 'vert-origin-y',
+  xHeight: 'x-height',
   // Text attributes
   textAnchor: 'text-anchor',
   textDecoration: 'text-decoration',
+  textRendering: 'text-rendering',
   dominantBaseline: 'dominant-baseline',
   alignmentBaseline: 'alignment-baseline',
   baselineShift: 'baseline-shift',
+  letterSpacing: 'letter-spacing',
+  wordSpacing: 'word-spacing',
+  writingMode: 'writing-mode',
+  unicodeBidi: 'unicode-bidi',
   // Gradient/filter attributes
   stopColor: 'stop-color',
   stopOpacity: 'stop-opacity',
   colorInterpolation: 'color-interpolation',
   colorInterpolationFilters: 'color-interpolation-filters',
+  colorProfile: 'color-profile',
+  colorRendering: 'color-rendering',
+  enableBackground: 'enable-background',
   floodColor: 'flood-color',
   floodOpacity: 'flood-opacity',
   lightingColor: 'lighting-color',
@@ -85,7 +144,19 @@ export const jsxToSvgAttributeMap: Record<string, string> = {
   shapeRendering: 'shape-rendering',
   imageRendering: 'image-rendering',
   pointerEvents: 'pointer-events',
-  xlinkHref: 'xlink:href'
+  renderingIntent: 'rendering-intent',
+  // Namespaced attributes
+  xlinkActuate: 'xlink:actuate',
+  xlinkArcrole: 'xlink:arcrole',
+  xlinkHref: 'xlink:href',
+  xlinkRole: 'xlink:role',
+  xlinkShow: 'xlink:show',
+  xlinkTitle: 'xlink:title',
+  xlinkType: 'xlink:type',
+  xmlBase: 'xml:base',
+  xmlLang: 'xml:lang',
+  xmlSpace: 'xml:space',
+  xmlnsXlink: 'xmlns:xlink'
 }
 
 /**
@@ -95,11 +166,94 @@ export const svgToJsxAttributeMap: Record<string, string> = Object.fromEntries(
   Object.entries(jsxToSvgAttributeMap).map(([jsx, svg]) => [svg, jsx])
 )
 
+/**
+ * Common misspellings of JSX attributes, only converted from JSX to SVG
+ * (the way back always uses the names React expects)
+ */
+const jsxAttributeAliases: Record<string, string> = {
+  strokeDashArray: 'stroke-dasharray',
+  strokeDashOffset: 'stroke-dashoffset',
+  strokeLineCap: 'stroke-linecap',
+  strokeLineJoin: 'stroke-linejoin',
+  strokeMiterLimit: 'stroke-miterlimit'
+}
+
+/**
+ * Components of react-native-svg and the SVG elements they render
+ */
+export const reactNativeSvgElementMap: Record<string, string> = {
+  Svg: 'svg',
+  Circle: 'circle',
+  ClipPath: 'clipPath',
+  Defs: 'defs',
+  Ellipse: 'ellipse',
+  FeBlend: 'feBlend',
+  FeColorMatrix: 'feColorMatrix',
+  FeComponentTransfer: 'feComponentTransfer',
+  FeComposite: 'feComposite',
+  FeConvolveMatrix: 'feConvolveMatrix',
+  FeDiffuseLighting: 'feDiffuseLighting',
+  FeDisplacementMap: 'feDisplacementMap',
+  FeDistantLight: 'feDistantLight',
+  FeDropShadow: 'feDropShadow',
+  FeFlood: 'feFlood',
+  FeFuncA: 'feFuncA',
+  FeFuncB: 'feFuncB',
+  FeFuncG: 'feFuncG',
+  FeFuncR: 'feFuncR',
+  FeGaussianBlur: 'feGaussianBlur',
+  FeImage: 'feImage',
+  FeMerge: 'feMerge',
+  FeMergeNode: 'feMergeNode',
+  FeMorphology: 'feMorphology',
+  FeOffset: 'feOffset',
+  FePointLight: 'fePointLight',
+  FeSpecularLighting: 'feSpecularLighting',
+  FeSpotLight: 'feSpotLight',
+  FeTile: 'feTile',
+  FeTurbulence: 'feTurbulence',
+  Filter: 'filter',
+  ForeignObject: 'foreignObject',
+  G: 'g',
+  Image: 'image',
+  Line: 'line',
+  LinearGradient: 'linearGradient',
+  Marker: 'marker',
+  Mask: 'mask',
+  Path: 'path',
+  Pattern: 'pattern',
+  Polygon: 'polygon',
+  Polyline: 'polyline',
+  RadialGradient: 'radialGradient',
+  Rect: 'rect',
+  Stop: 'stop',
+  Symbol: 'symbol',
+  Text: 'text',
+  TextPath: 'textPath',
+  TSpan: 'tspan',
+  Use: 'use'
+}
+
+const svgToReactNativeElementMap: Record<string, string> = Object.fromEntries(
+  Object.entries(reactNativeSvgElementMap).map(([component, element]) => [element, component])
+)
+
+/**
+ * Whether the SVG is written with react-native-svg components (`<Svg>`, `<Path>`...)
+ */
+export function isReactNativeSvg (svgContent: string): boolean {
+  return /^\s*<Svg(?=[\s/>])/.test(svgContent)
+}
+
 /**
  * Detects if the SVG content contains JSX-specific syntax
  * (camelCase attributes, expression values like {2}, className, etc.)
  */
 export function isJsxSvg (svgContent: string): boolean {
+  if (isReactNativeSvg(svgContent)) {
+    return true
+  }
+
   // Check for JSX expression values like ={2} or ={variable}
   if (/=\{[^}]+\}/.test(svgContent)) {
     return true
@@ -116,7 +270,7 @@ export function isJsxSvg (svgContent: string): boolean {
   }
 
   // Check for any known JSX camelCase attributes
-  for (const jsxAttr of Object.keys(jsxToSvgAttributeMap)) {
+  for (const jsxAttr of [...Object.keys(jsxToSvgAttributeMap), ...Object.keys(jsxAttributeAliases)]) {
     const regex = new RegExp(`\\b${jsxAttr}=`, 'g')
     if (regex.test(svgContent)) {
       return true
@@ -158,377 +312,889 @@ export function isJsxSvg (svgContent: string): boolean {
   return false
 }
 
+// Framework directives that SVGO would drop or choke on (Astro, Vue, Svelte)
+const DIRECTIVE_PATTERN = /^(client:|v-|on:|bind:|class:|use:|let:|animate:|transition:|[:@])/
+const XML_NAMESPACE_PATTERN = /^(xmlns|xlink|xml|sketch):/
+const TEMP_PREFIX = 'data-better-svg-temp-'
+const STYLE_OBJECT_MARKER = 'data-better-svg-style-object'
+const REACT_NATIVE_MARKER = 'data-better-svg-react-native'
+const ENCODED_PATTERN = new RegExp(`(?:${BASE64_PREFIX}|${RAW_PREFIX})[A-Za-z0-9+/=]*${BASE64_SUFFIX}`, 'g')
+// Angular control flow: `@if (cond) {`, `} @else {`, `@for (item of items; track item.id) {`...
+const CONTROL_FLOW_BLOCK = /^@(?:if|else\s+if|else|for|switch|case|default|empty|defer|placeholder|loading|error)\b/
+// Delimiters of server template tags, longest first: Blade, Handlebars, Twig, Jinja, Liquid, Go, ERB, EJS and PHP
+const TEMPLATE_DELIMITERS: Array<[string, string]> = [
+  ['{{--', '--}}'],
+  ['{{{', '}}}'],
+  ['{!!', '!!}'],
+  ['{{', '}}'],
+  ['{%', '%}'],
+  ['{#', '#}'],
+  ['<%', '%>'],
+  ['<?php', '?>'],
+  ['<?=', '?>']
+]
+
+// Previous significant characters after which `<` starts a JSX element instead of a comparison
+const JSX_CONTEXT_CHARS = '(,=:?&|{[!>;}'
+const JSX_CONTEXT_WORDS = ['return', 'yield', 'await', 'default', 'case']
+
+function isNameChar (char: string | undefined): boolean {
+  return char !== undefined && /[\w$]/.test(char)
+}
 
+function skipString (src: string, index: number): number {
+  const quote = src[index]
+  let i = index + 1
+  while (i < src.length) {
+    if (src[i] === '\\') {
+      i += 2
+    } else if (src[i] === quote) {
+      return i + 1
+    } else {
+      i++
+    }
+  }
+  return src.length
+}
 
+function skipTemplateLiteral (src: string, index: number): number {
+  let i = index + 1
+  while (i < src.length) {
+    if (src[i] === '\\') {
+      i += 2
+    } else if (src[i] === '`') {
+      return i + 1
+    } else if (src.startsWith('${', i)) {
+      const end = scanExpression(src, i + 1)
+      if (end === -1) {
+        return src.length
+      }
+      i = end
+    } else {
+      i++
+    }
+  }
+  return src.length
+}
 
+function skipComment (src: string, index: number): number {
+  if (src.startsWith('//', index)) {
+    const end = src.indexOf('\n', index)
+    return end === -1 ? src.length : end
+  }
+  const end = src.indexOf('*/', index + 2)
+  return end === -1 ? src.length : end + 2
+}
 
 /**
- * Converts JSX SVG syntax to valid SVG XML
- * - Converts expression values {2} to "2"
- * - Converts className to class
- * - Converts camelCase attributes to kebab-case
+ * Whether the `<` at `index` (inside a JS expression) opens a JSX element rather than being a comparison
  */
-/**
- * Helper to replace JSX expressions like ={...} with ="..."
- * Handles nested braces and strings correctly
- */
-function replaceJsxExpressions (content: string): string {
-  let result = ''
-  let currentIndex = 0
-
-  while (currentIndex < content.length) {
-    const startIdx = content.indexOf('={', currentIndex)
-    if (startIdx === -1) {
-      result += content.slice(currentIndex)
-      break
-    }
+function isJsxElementStart (src: string, index: number): boolean {
+  const next = src[index + 1]
+  if (!(next === '>' || /[A-Za-z]/.test(next ?? ''))) {
+    return false
+  }
 
-    // Append everything before "={"
-    result += content.slice(currentIndex, startIdx)
+  let i = index - 1
+  while (i >= 0 && /\s/.test(src[i])) {
+    i--
+  }
 
-    // Find matching brace
-    let balance = 1
-    let j = startIdx + 2
-    let found = false
-    let inString = false
-    let stringChar = ''
+  if (i < 0 || JSX_CONTEXT_CHARS.includes(src[i])) {
+    return true
+  }
 
-    while (j < content.length) {
-      const char = content[j]
-      const prevChar = content[j - 1]
+  let wordStart = i
+  while (wordStart > 0 && isNameChar(src[wordStart - 1])) {
+    wordStart--
+  }
+  return JSX_CONTEXT_WORDS.includes(src.slice(wordStart, i + 1))
+}
 
-      if (inString) {
-        if (char === stringChar && prevChar !== '\\') {
-          inString = false
-        }
-      } else {
-        if (char === '"' || char === '\'' || char === '`') {
-          inString = true
-          stringChar = char
-        } else if (char === '{') {
-          balance++
-        } else if (char === '}') {
-          balance--
+/**
+ * Scans a JS expression starting at the `{` at `index`, with strings, template literals,
+ * comments and nested JSX elements. Returns the index after the matching `}`, or -1 if it is not closed
+ */
+function scanExpression (src: string, index: number): number {
+  let depth = 0
+  let i = index
+
+  while (i < src.length) {
+    const char = src[i]
+
+    if (char === '"' || char === '\'') {
+      i = skipString(src, i)
+    } else if (char === '`') {
+      i = skipTemplateLiteral(src, i)
+    } else if (src.startsWith('//', i) || src.startsWith('/*', i)) {
+      i = skipComment(src, i)
+    } else if (char === '<' && isJsxElementStart(src, i)) {
+      const end = scanJsxElement(src, i)
+      if (end === -1) {
+        return -1
+      }
+      i = end
+    } else {
+      if (char === '{') {
+        depth++
+      } else if (char === '}') {
+        depth--
+        if (depth === 0) {
+          return i + 1
         }
       }
+      i++
+    }
+  }
 
-      j++
+  return -1
+}
 
-      if (!inString && balance === 0) {
-        found = true
-        break
+/**
+ * Scans a JSX element (or fragment) nested in an expression, like `{cond && <path d="M0 0" />}`.
+ * Returns the index after its closing tag, or -1 if it is not closed
+ */
+function scanJsxElement (src: string, index: number): number {
+  let i = index + 1
+
+  // Opening tag
+  while (i < src.length) {
+    const char = src[i]
+    if (char === '"' || char === '\'') {
+      i = skipString(src, i)
+    } else if (char === '{') {
+      i = scanExpression(src, i)
+      if (i === -1) {
+        return -1
       }
+    } else if (src.startsWith('/>', i)) {
+      return i + 2
+    } else if (char === '>') {
+      i++
+      break
+    } else {
+      i++
     }
+  }
 
-    if (found) {
-      const expression = content.slice(startIdx + 2, j - 1)
-      result += `="${encodeJsx(expression)}"`
-      currentIndex = j
+  // Children, up to the closing tag of this element
+  while (i < src.length) {
+    const char = src[i]
+    if (char === '{') {
+      i = scanExpression(src, i)
+      if (i === -1) {
+        return -1
+      }
+    } else if (src.startsWith('</', i)) {
+      const end = src.indexOf('>', i)
+      return end === -1 ? -1 : end + 1
+    } else if (char === '<') {
+      i = scanJsxElement(src, i)
+      if (i === -1) {
+        return -1
+      }
     } else {
-      // Failed to find matching brace, just skip "={"
-      result += '={'
-      currentIndex = startIdx + 2
+      i++
     }
   }
 
-  return result
+  return -1
 }
 
-function replaceTextInterpolations (content: string): string {
-  let result = ''
-  let currentIndex = 0
-
-  while (currentIndex < content.length) {
-    // We only care about { that are between > and <
-    const startIdx = content.indexOf('{', currentIndex)
-    if (startIdx === -1) {
-      result += content.slice(currentIndex)
-      break
+/**
+ * Parts of the source copied verbatim when found in text content
+ */
+function skipMarkup (src: string, index: number): number {
+  for (const [open, close] of [['<!--', '-->'], ['<![CDATA[', ']]>'], ['<?', '?>'], ['<!', '>']]) {
+    if (src.startsWith(open, index)) {
+      const end = src.indexOf(close, index + open.length)
+      return end === -1 ? src.length : end + close.length
     }
+  }
+  return -1
+}
 
-    // Heuristic: check if we are likely in text content
-    // We look back for > and ensure no < between > and {
-    const lastOpen = content.lastIndexOf('>', startIdx)
-    const lastClose = content.lastIndexOf('<', startIdx)
-    const isInsideTag = lastOpen !== -1 && lastOpen > lastClose
+// Characters of framework attribute names that are not allowed in XML names
+const SAFE_NAME_TOKENS: Array<[string, string]> = [
+  [':', '__COLON__'],
+  ['@', '__AT__'],
+  ['.', '__DOT__'],
+  ['[', '__LBRACKET__'],
+  [']', '__RBRACKET__'],
+  ['(', '__LPAREN__'],
+  [')', '__RPAREN__'],
+  ['*', '__STAR__'],
+  ['#', '__HASH__'],
+  ['$', '__DOLLAR__']
+]
+
+function toJsxSafeName (attr: string): string {
+  return SAFE_NAME_TOKENS.reduce((name, [char, token]) => name.split(char).join(token), attr)
+}
 
-    // If preceded by = or not inside a tag-content area, skip
-    if ((startIdx > 0 && content[startIdx - 1] === '=') || !isInsideTag) {
-        result += content.slice(currentIndex, startIdx + 1)
-        currentIndex = startIdx + 1
-        continue
-    }
+function fromJsxSafeName (safeAttr: string): string {
+  return SAFE_NAME_TOKENS.reduce((name, [char, token]) => name.split(token).join(char), safeAttr)
+}
 
-    // Skip if it is a JSX comment start
-    if (content.startsWith('/*', startIdx + 1)) {
-        result += content.slice(currentIndex, startIdx + 1)
-        currentIndex = startIdx + 1
-        continue
-    }
+/**
+ * Name an attribute of the converted SVG had in the host syntax (`:width` for a protected Vue binding)
+ */
+export function getSourceAttributeName (name: string): string {
+  return name.startsWith(TEMP_PREFIX) ? fromJsxSafeName(name.slice(TEMP_PREFIX.length)) : name
+}
 
-    // Append everything before "{"
-    result += content.slice(currentIndex, startIdx)
+/**
+ * Scans an Angular control flow block opening (`@if (cond) {`) or `@let` declaration.
+ * Returns the index after it, or -1 if there is none at index
+ */
+function scanControlFlow (src: string, index: number): number {
+  const letMatch = src.slice(index).match(/^@let\s[^;]*;/)
+  if (letMatch) {
+    return index + letMatch[0].length
+  }
 
-    // Find matching brace
-    let balance = 1
-    let j = startIdx + 1
-    let found = false
-    let inString = false
-    let stringChar = ''
+  const blockMatch = src.slice(index).match(CONTROL_FLOW_BLOCK)
+  if (!blockMatch) {
+    return -1
+  }
 
-    while (j < content.length) {
-      const char = content[j]
-      const prevChar = content[j - 1]
-      if (inString) {
-        if (char === stringChar && prevChar !== '\\') inString = false
-      } else {
-        if (char === '"' || char === '\'' || char === '`') { inString = true; stringChar = char }
-        else if (char === '{') balance++
-        else if (char === '}') balance--
-      }
-      j++
-      if (!inString && balance === 0) { found = true; break }
-    }
+  let i = index + blockMatch[0].length
+  while (/\s/.test(src[i] ?? '')) {
+    i++
+  }
 
-    if (found) {
-      const expression = content.slice(startIdx + 1, j - 1)
-      result += encodeJsx(expression)
-      currentIndex = j
-    } else {
-      result += '{'
-      currentIndex = startIdx + 1
+  if (src[i] === '(') {
+    i = skipParens(src, i)
+    while (/\s/.test(src[i] ?? '')) {
+      i++
     }
   }
-  return result
-}
-
 
+  return src[i] === '{' ? i + 1 : -1
+}
 
-
-function replaceJsxSpreads (content: string): string {
-  let result = ''
-  let currentIndex = 0
-  let spreadIndex = 0
-
-  while (currentIndex < content.length) {
-    const startIdx = content.indexOf('{...', currentIndex)
-    if (startIdx === -1) {
-      result += content.slice(currentIndex)
-      break
+/**
+ * Skips a parenthesized group starting at index, nested groups and strings included
+ */
+function skipParens (src: string, index: number): number {
+  let depth = 0
+  for (let i = index; i < src.length; i++) {
+    if (src[i] === '"' || src[i] === '\'') {
+      i = skipString(src, i) - 1
+    } else if (src[i] === '(') {
+      depth++
+    } else if (src[i] === ')' && --depth === 0) {
+      return i + 1
     }
+  }
+  return src.length
+}
 
-    // Append everything before "{..."
-    result += content.slice(currentIndex, startIdx)
+/**
+ * Scans a server template tag (`{{ }}`, `{% %}`, `{!! !!}`, `<%= %>`, `<?php ?>`...).
+ * Returns the index after it, or -1 if there is none at index
+ */
+function scanTemplateTag (src: string, index: number): number {
+  for (const [open, close] of TEMPLATE_DELIMITERS) {
+    if (src.startsWith(open, index)) {
+      const end = src.indexOf(close, index + open.length)
+      return end === -1 ? -1 : end + close.length
+    }
+  }
+  return -1
+}
 
-    // Find matching brace
-    let balance = 1
-    let j = startIdx + 4
-    let found = false
-    let inString = false
-    let stringChar = ''
+/**
+ * Scans a Blade directive (`@csrf`, `@if ($icon)`, `@endif`). In tag position, where Alpine
+ * writes `@click="..."`, only directives with arguments count. Returns the index after it, or -1
+ */
+function scanBladeDirective (src: string, index: number, inTag: boolean): number {
+  const name = src.slice(index).match(/^@[A-Za-z]\w*/)?.[0]
+  if (!name || (index > 0 && !/[\s>]/.test(src[index - 1]))) {
+    return -1
+  }
 
-    while (j < content.length) {
-      const char = content[j]
-      const prevChar = content[j - 1]
+  let i = index + name.length
+  while (src[i] === ' ') {
+    i++
+  }
 
-      if (inString) {
-        if (char === stringChar && prevChar !== '\\') {
-          inString = false
-        }
-      } else {
-        if (char === '"' || char === '\'' || char === '`') {
-          inString = true
-          stringChar = char
-        } else if (char === '{') {
-          balance++
-        } else if (char === '}') {
-          balance--
-        }
-      }
+  if (src[i] === '(') {
+    return skipParens(src, i)
+  }
+  return inTag ? -1 : index + name.length
+}
 
-      j++
+/**
+ * Finds the closing quote of an attribute value, skipping the quotes of template tags (`"{{ "a" }}"`)
+ */
+function findValueEnd (src: string, index: number, quote: string): number {
+  let i = index
+  while (i < src.length) {
+    const end = scanTemplateTag(src, i)
+    if (end !== -1) {
+      i = end
+    } else if (src[i] === quote) {
+      return i
+    } else {
+      i++
+    }
+  }
+  return -1
+}
 
-      if (!inString && balance === 0) {
-        found = true
-        break
-      }
+/**
+ * Finds where the attributes wrapped by the template tags of an opening tag end: after its last
+ * template tag and whatever is glued to it. index is the end of the first template tag
+ */
+function findTemplateRegionEnd (src: string, index: number): number {
+  let regionEnd = index
+  let i = index
+
+  while (i < src.length && src[i] !== '>' && !src.startsWith('/>', i)) {
+    const end = src[i] === '@' ? scanBladeDirective(src, i, true) : scanTemplateTag(src, i)
+    if (end !== -1) {
+      i = regionEnd = end
+    } else if (src[i] === '"' || src[i] === '\'') {
+      const valueEnd = findValueEnd(src, i + 1, src[i])
+      i = valueEnd === -1 ? src.length : valueEnd + 1
+    } else {
+      i++
     }
+  }
 
-    if (found) {
-      const expression = content.slice(startIdx + 4, j - 1).trim()
-      result += `data-spread-${spreadIndex++}="${encodeJsx(expression)}"`
-      currentIndex = j
+  // Attributes glued to the last tag: {% endif %}data-on="true"
+  while (regionEnd < src.length && !/[\s>]/.test(src[regionEnd]) && !src.startsWith('/>', regionEnd)) {
+    if (src[regionEnd] === '"' || src[regionEnd] === '\'') {
+      const valueEnd = findValueEnd(src, regionEnd + 1, src[regionEnd])
+      regionEnd = valueEnd === -1 ? src.length : valueEnd + 1
     } else {
-      result += '{...'
-      currentIndex = startIdx + 4
+      regionEnd++
     }
   }
 
-  return result
+  return regionEnd
 }
 
-
-function removeJsxComments (content: string): string {
-  // Remove block comments {/* ... */}
-  content = content.replace(/\{\/\*[\s\S]*?\*\/\}/g, '')
-  // Remove line comments // ... that are on their own line (common in JSX)
-  // We use the 'm' flag so ^ matches start of line
-  content = content.replace(/^\s*\/\/.*$/gm, '')
-  return content
-}
-
-function protectEncodedAttributes (content: string): string {
-  // Protect any attribute that has a Base64 encoded value OR is a framework directive
-  // Matches: attr="..." or just attr (boolean)
-  // We avoid \b because it doesn't work with prefix like : or @
-  return content.replace(/([a-zA-Z0-9-:@.]+)(?:=(["'])([\s\S]*?)\2)?/g, (match, attr, quote, value, offset) => {
-    // Ensure it's an attribute (preceded by whitespace or <tag)
-    const prevChar = content[offset - 1]
-    if (prevChar && !/\s|<|>/.test(prevChar)) return match
-
-    // Skip if it's already a temp attribute
-    if (attr.startsWith('data-better-svg-temp-')) return match
-
-    // Decide if we should protect this attribute
-    const isEncoded = value?.includes(BASE64_PREFIX)
-    const isDirective = /^(client:|v-|on:|bind:|class:|use:|let:|animate:|transition:|[:@])/.test(attr) && 
-                        !/^(xmlns|xlink|xml|sketch):/.test(attr)
-    
-    if (!isEncoded && !isDirective) {
-      return match
-    }
-
-    // Sanitize attribute name for use in data- attribute
-    const safeAttr = attr
-      .replace(/:/g, '__COLON__')
-      .replace(/@/g, '__AT__')
-      .replace(/\./g, '__DOT__')
-    
-    if (value !== undefined) {
-      return `data-better-svg-temp-${safeAttr}="${value}"`
+/**
+ * Replaces the template tags of an attribute value with placeholders restored verbatim
+ */
+function protectTemplateTags (value: string): string {
+  let result = ''
+  let i = 0
+  while (i < value.length) {
+    const end = scanTemplateTag(value, i)
+    if (end === -1) {
+      result += value[i]
+      i++
     } else {
-      // Boolean attribute
-      return `data-better-svg-temp-${safeAttr}="__BOOLEAN__"`
+      result += encodeJsx(value.slice(i, end), RAW_PREFIX)
+      i = end
     }
-  })
+  }
+  return result
 }
 
+interface ParsedAttribute {
+  name: string
+  /**
+   * Undefined for boolean attributes
+   */
+  value?: string
+  quote: string
+}
 
-function restoreEncodedAttributes (content: string): string {
-  // Restore protected attributes
-  return content.replace(/data-better-svg-temp-([a-zA-Z0-9-_]+)="([^"]*)"/g, (match, safeAttr, value) => {
-    const attr = safeAttr
-      .replace(/__COLON__/g, ':')
-      .replace(/__AT__/g, '@')
-      .replace(/__DOT__/g, '.')
-    
-    if (value === '__BOOLEAN__') {
-      return attr
+/**
+ * Serializes an attribute for SVGO: renames JSX names, and hides encoded values and directives behind a temp name
+ */
+function prepareAttribute (attribute: ParsedAttribute, options: OptimizationOptions): string {
+  let name = attribute.name
+
+  if (options.useCamelCase || options.jsx) {
+    name = name === 'className' ? 'class' : (jsxToSvgAttributeMap[name] ?? jsxAttributeAliases[name] ?? name)
+  }
+
+  const isEncoded = (attribute.value?.includes(BASE64_PREFIX) || attribute.value?.includes(RAW_PREFIX)) ?? false
+  // v-alphabetic, v-hanging... are SVG attributes, not Vue directives
+  const isDirective = (DIRECTIVE_PATTERN.test(name) || (options.directives?.test(name) ?? false)) &&
+    !XML_NAMESPACE_PATTERN.test(name) && !(name in svgToJsxAttributeMap)
+
+  if (isEncoded || isDirective) {
+    if (attribute.value === undefined) {
+      return `${TEMP_PREFIX}${toJsxSafeName(name)}="__BOOLEAN__"`
     }
-    return `${attr}="${value}"`
-  })
+    // Keep the original quotes, the value may contain the other kind
+    const quote = attribute.quote || '"'
+    return `${TEMP_PREFIX}${toJsxSafeName(name)}=${quote}${attribute.value}${quote}`
+  }
+
+  if (attribute.value === undefined) {
+    return name
+  }
+
+  const quote = attribute.quote || '"'
+  return `${name}=${quote}${attribute.value}${quote}`
 }
 
 /**
  * Converts JSX SVG syntax to valid SVG XML
- * - Converts expression values {2} to "2"
+ * - Converts expression values {2} to "2" (Base64 encoded, so they survive SVGO untouched)
+ * - Converts spreads, comments and expression children to placeholders
  * - Converts className to class (if useCamelCase is true)
  * - Converts camelCase attributes to kebab-case (if useCamelCase is true)
  */
 export function convertJsxToSvg (svgContent: string, options: OptimizationOptions = { useCamelCase: true }): string {
-  // Remove JSX comments first to avoid parsing issues
-  svgContent = removeJsxComments(svgContent)
+  const src = svgContent
+  let result = ''
+  let i = 0
+  let spreadIndex = 0
+  let rawIndex = 0
+  let blockDepth = 0
 
-  // Convert JSX expression values like {2} to "2"
-  svgContent = replaceJsxExpressions(svgContent)
+  // react-native-svg components are always JSX, whatever the language of the file
+  const reactNative = isReactNativeSvg(src)
+  if (reactNative) {
+    options = { ...options, useCamelCase: true }
+  }
+  const elementName = (name: string) => reactNative ? (reactNativeSvgElementMap[name] ?? name) : name
 
-  // Convert text interpolations like <text>{val}</text>
-  svgContent = replaceTextInterpolations(svgContent)
+  while (i < src.length) {
+    const char = src[i]
 
-  // Convert spread attributes {...props} to data-spread-i="props"
-  // Using robust parser for nested braces
-  svgContent = replaceJsxSpreads(svgContent)
+    // Server template tags and Blade directives between elements are kept as they are
+    if (options.templateTags) {
+      const end = char === '@' ? scanBladeDirective(src, i, false) : scanTemplateTag(src, i)
+      if (end !== -1) {
+        result += encodeJsx(src.slice(i, end), RAW_PREFIX)
+        i = end
+        continue
+      }
+    }
 
-  if (options.useCamelCase) {
-    // Convert className to class
-    svgContent = svgContent.replace(/\bclassName=/g, 'class=')
+    const markupEnd = char === '<' ? skipMarkup(src, i) : -1
+    if (markupEnd !== -1) {
+      result += src.slice(i, markupEnd)
+      i = markupEnd
+      continue
+    }
+
+    // Control flow blocks wrap markup, only their delimiters are protected
+    if (options.controlFlow && char === '@') {
+      const end = scanControlFlow(src, i)
+      if (end !== -1) {
+        result += encodeJsx(src.slice(i, end), RAW_PREFIX)
+        blockDepth += src[end - 1] === '{' ? 1 : 0
+        i = end
+        continue
+      }
+    }
+
+    if (char === '}' && blockDepth > 0) {
+      result += encodeJsx(char, RAW_PREFIX)
+      blockDepth--
+      i++
+      continue
+    }
+
+    // Expression children and JSX comments: {value}, {cond && <path />}, {/* comment */}
+    if (char === '{') {
+      const end = scanExpression(src, i)
+      if (end === -1) {
+        result += src.slice(i)
+        break
+      }
+      result += encodeJsx(src.slice(i + 1, end - 1))
+      i = end
+      continue
+    }
 
-    // Convert all JSX camelCase attributes to SVG kebab-case
-    for (const [jsx, svg] of Object.entries(jsxToSvgAttributeMap)) {
-      const regex = new RegExp(`\\b${jsx}=`, 'g')
-      svgContent = svgContent.replace(regex, `${svg}=`)
+    if (src.startsWith('</', i)) {
+      const end = src.indexOf('>', i)
+      const tagEnd = end === -1 ? src.length : end + 1
+      result += src.slice(i, tagEnd).replace(/^<\/([^\s>]+)/, (_match, name: string) => `</${elementName(name)}`)
+      i = tagEnd
+      continue
+    }
+
+    if (char !== '<' || !/[A-Za-z]/.test(src[i + 1] ?? '')) {
+      result += char
+      i++
+      continue
+    }
+
+    // Opening tag
+    const tagName = src.slice(i + 1).match(/^[^\s/>{]+/)![0]
+    let selfClosing = false
+    result += `<${elementName(tagName)}`
+    if (reactNative && tagName === 'Svg') {
+      // Tells convertSvgToJsx to write the components back
+      result += ` ${REACT_NATIVE_MARKER}="true"`
+    }
+    i += 1 + tagName.length
+    // Where the last attribute starts, in src and in result
+    let lastAttribute = { start: i, end: i, resultLength: result.length }
+
+    while (i < src.length) {
+      const current = src[i]
+
+      const templateEnd = options.templateTags
+        ? (current === '@' ? scanBladeDirective(src, i, true) : scanTemplateTag(src, i))
+        : -1
+
+      if (templateEnd !== -1) {
+        // Template tags usually wrap attributes ({% if active %}class="on"{% endif %}), so everything up to
+        // the last one of the tag is kept together, SVGO could reorder it otherwise
+        let start = i
+        if (lastAttribute.end === i && lastAttribute.start < i) {
+          start = lastAttribute.start
+          result = result.slice(0, lastAttribute.resultLength)
+        }
+        const end = findTemplateRegionEnd(src, templateEnd)
+        result += prepareAttribute({ name: `data-jsx-${rawIndex++}`, value: encodeJsx(src.slice(start, end)), quote: '"' }, options)
+        i = end
+      } else if (/\s/.test(current)) {
+        result += current
+        i++
+      } else if (src.startsWith('/>', i)) {
+        result += '/>'
+        i += 2
+        selfClosing = true
+        break
+      } else if (current === '>') {
+        result += '>'
+        i++
+        break
+      } else if (current === '{') {
+        // Spread {...props} or any other expression in tag position
+        const end = scanExpression(src, i)
+        if (end === -1) {
+          result += src.slice(i)
+          i = src.length
+          break
+        }
+        const inner = src.slice(i + 1, end - 1)
+        result += inner.startsWith('...')
+          ? prepareAttribute({ name: `data-spread-${spreadIndex++}`, value: encodeJsx(inner.slice(3)), quote: '"' }, options)
+          : prepareAttribute({ name: `data-jsx-${rawIndex++}`, value: encodeJsx(src.slice(i, end)), quote: '"' }, options)
+        i = end
+      } else if (src.startsWith('//', i) || src.startsWith('/*', i)) {
+        // Comments between attributes, the line break is part of a line comment
+        let end = skipComment(src, i)
+        if (src[end] === '\n') {
+          end++
+        }
+        result += prepareAttribute({ name: `data-jsx-${rawIndex++}`, value: encodeJsx(src.slice(i, end)), quote: '"' }, options)
+        i = end
+      } else {
+        const nameMatch = src.slice(i).match(/^[^\s=/>{}"']+/)
+        if (!nameMatch) {
+          result += current
+          i++
+          continue
+        }
+
+        const name = nameMatch[0]
+        lastAttribute = { start: i, end: i, resultLength: result.length }
+        let j = i + name.length
+        while (/\s/.test(src[j] ?? '')) {
+          j++
+        }
+
+        if (src[j] !== '=') {
+          result += prepareAttribute({ name, quote: '' }, options)
+          i += name.length
+          lastAttribute.end = i
+          continue
+        }
+
+        j++
+        while (/\s/.test(src[j] ?? '')) {
+          j++
+        }
+
+        const valueStart = src[j]
+        if (valueStart === '{') {
+          const end = scanExpression(src, j)
+          if (end === -1) {
+            result += src.slice(i)
+            i = src.length
+            break
+          }
+          const expression = src.slice(j + 1, end - 1)
+          // Literal style objects become CSS so SVGO can optimize them, the marker converts them back
+          const style = options.useCamelCase && name === 'style' ? styleObjectToCss(expression) : undefined
+          result += style
+            ? `style="${style.css}" ${STYLE_OBJECT_MARKER}="${style.quote === '"' ? 'double' : 'single'}"`
+            : prepareAttribute({ name, value: encodeJsx(expression), quote: '"' }, options)
+          i = end
+        } else if (valueStart === '"' || valueStart === '\'') {
+          const end = options.templateTags ? findValueEnd(src, j + 1, valueStart) : src.indexOf(valueStart, j + 1)
+          const valueEnd = end === -1 ? src.length : end
+          const value = src.slice(j + 1, valueEnd)
+          result += prepareAttribute({ name, value: options.templateTags ? protectTemplateTags(value) : value, quote: valueStart }, options)
+          i = valueEnd + 1
+        } else {
+          const unquoted = src.slice(j).match(/^[^\s>]*?(?=\/?>|\s|$)/)?.[0] ?? ''
+          result += prepareAttribute({ name, value: unquoted, quote: '"' }, options)
+          i = j + unquoted.length
+        }
+        lastAttribute.end = i
+      }
+    }
+
+    // Raw text elements: CSS braces are not expressions (JSX writes them as {`...`}, which is)
+    if (/^(style|script)$/i.test(tagName) && !selfClosing) {
+      const close = src.toLowerCase().indexOf(`</${tagName.toLowerCase()}`, i)
+      const contentEnd = close === -1 ? src.length : close
+      if (!src.slice(i, contentEnd).trim().startsWith('{')) {
+        result += src.slice(i, contentEnd)
+        i = contentEnd
+      }
     }
   }
-  
-  // Protect all attributes with encoded values from SVGO
-  // This handles style, event handlers, and anything else that is dynamically encoded
-  svgContent = protectEncodedAttributes(svgContent)
 
-  return svgContent
+  return result
 }
 
 /**
- * Converts SVG XML syntax back to JSX
- * - Converts class to className (if useCamelCase is true)
- * - Converts kebab-case attributes to camelCase (if useCamelCase is true)
+ * Serializes an attribute of the optimized SVG back to the host syntax
  */
-export function convertSvgToJsx (svgContent: string, options: OptimizationOptions = { useCamelCase: true }): string {
-  // Restore protected attributes first
-  svgContent = restoreEncodedAttributes(svgContent)
+function restoreAttribute (name: string, value: string | undefined, quote: string, options: OptimizationOptions): string {
+  // Restore protected attributes
+  if (name.startsWith(TEMP_PREFIX)) {
+    name = fromJsxSafeName(name.slice(TEMP_PREFIX.length))
+    if (value === '__BOOLEAN__') {
+      value = undefined
+    } else if (value?.includes('&quot;') && !value.includes('\'')) {
+      // SVGO re-quotes values with double quotes, escaping the ones the original had inside single quotes
+      value = value.replace(/&quot;/g, '"')
+      quote = '\''
+    }
+  }
 
   if (options.useCamelCase) {
-    // Convert class to className
-    svgContent = svgContent.replace(/\bclass=/g, 'className=')
+    name = name === 'class' ? 'className' : (svgToJsxAttributeMap[name] ?? name)
+  }
 
-    // Convert all SVG kebab-case attributes to JSX camelCase
-    for (const [svg, jsx] of Object.entries(svgToJsxAttributeMap)) {
-      // Need to escape hyphens and colons for regex
-      const escapedSvg = svg.replace(/[-:]/g, '\\$&')
-      const regex = new RegExp(`\\b${escapedSvg}=`, 'g')
-      svgContent = svgContent.replace(regex, `${jsx}=`)
-    }
+  if (value === undefined) {
+    return name
+  }
+
+  // Template tags inside the value: fill="{{ color }}", class="icon <%= extra %>"
+  if (value.includes(RAW_PREFIX)) {
+    value = value.replace(ENCODED_PATTERN, placeholder => decodeJsx(placeholder, RAW_PREFIX) ?? placeholder)
   }
 
-  // Restore spread attributes
-  svgContent = svgContent.replace(/\bdata-spread-\d+="([^"]*)"/g, (_match, value) => {
+  // Spread attributes
+  if (/^data-spread-\d+$/.test(name)) {
     const decoded = decodeJsx(value)
-    // If it wasn't encoded (legacy/fallback), try simple unescape or keep as is? 
-    // Just handling our new logic:
     if (decoded !== null) {
       return `{...${decoded}}`
     }
-    // Fallback for old behavior (though we overwrote it) or other cases
     const unescaped = value
       .replace(/&quot;/g, '"')
       .replace(/&gt;/g, '>')
       .replace(/&lt;/g, '<')
       .replace(/&amp;/g, '&')
     return `{...${unescaped}}`
-  })
+  }
 
-  // Decode Base64 expressions in attributes
-  // content="encoded" -> content={expression}
-  svgContent = svgContent.replace(/([a-zA-Z0-9-:@.]+)=(["'])(__JSX_BASE64__[^"']*?__)\2/g, (match, attr, quote, value) => {
+  // Expressions and comments written in tag position, restored verbatim
+  if (/^data-jsx-\d+$/.test(name)) {
     const decoded = decodeJsx(value)
     if (decoded !== null) {
-      return `${attr}={${decoded}}`
+      return decoded
     }
-    return match
-  })
+  }
 
-  // Decode Base64 expressions in text content
-  // >encoded< -> >{expression}<
-  svgContent = svgContent.replace(/>(__JSX_BASE64__[^<]*?__)</g, (match, value) => {
-    const decoded = decodeJsx(value)
-    if (decoded !== null) {
-        return `>{${decoded}}<`
+  // content="encoded" -> content={expression}
+  const decoded = decodeJsx(value)
+  if (decoded !== null) {
+    return `${name}={${decoded}}`
+  }
+
+  return `${name}=${quote}${value}${quote}`
+}
+
+/**
+ * Converts SVG XML syntax back to JSX
+ * - Restores protected attributes, spreads, expressions, comments and expression children
+ * - Converts class to className (if useCamelCase is true)
+ * - Converts kebab-case attributes to camelCase (if useCamelCase is true)
+ */
+export function convertSvgToJsx (svgContent: string, options: OptimizationOptions = { useCamelCase: true }): string {
+  const src = svgContent
+  let result = ''
+  let i = 0
+
+  const reactNative = src.includes(REACT_NATIVE_MARKER)
+  if (reactNative) {
+    options = { ...options, useCamelCase: true }
+  }
+
+  const restoreText = (text: string) => text.replace(ENCODED_PATTERN, value => {
+    const raw = decodeJsx(value, RAW_PREFIX)
+    if (raw !== null) {
+      return raw
     }
-    return match
+    const decoded = decodeJsx(value)
+    return decoded !== null ? `{${decoded}}` : value
   })
 
-  return svgContent
+  while (i < src.length) {
+    const tagStart = src.indexOf('<', i)
+    if (tagStart === -1) {
+      result += restoreText(src.slice(i))
+      break
+    }
+
+    result += restoreText(src.slice(i, tagStart))
+    i = tagStart
+
+    const markupEnd = skipMarkup(src, i)
+    if (markupEnd !== -1) {
+      result += src.slice(i, markupEnd)
+      i = markupEnd
+      continue
+    }
+
+    const tagName = src.slice(i + 1).match(/^\/?[^\s/>]*/)![0]
+    const elementName = tagName.replace(/^\/?/, '')
+    result += `<${tagName.startsWith('/') ? '/' : ''}${reactNative ? (svgToReactNativeElementMap[elementName] ?? elementName) : elementName}`
+    i += 1 + tagName.length
+
+    // The style object marker may come after the style attribute, so the tag is read first
+    const tokens: Array<string | { name: string, quote: string, value?: string }> = []
+    let styleObject: string | undefined
+
+    while (i < src.length) {
+      const current = src[i]
+
+      if (/\s/.test(current)) {
+        tokens.push(current)
+        i++
+      } else if (src.startsWith('/>', i)) {
+        tokens.push('/>')
+        i += 2
+        break
+      } else if (current === '>') {
+        tokens.push('>')
+        i++
+        break
+      } else {
+        const attributeMatch = src.slice(i).match(/^([^\s=/>]+)(?:=(["'])([\s\S]*?)\2)?/)
+        if (!attributeMatch) {
+          tokens.push(current)
+          i++
+          continue
+        }
+
+        const [raw, name, quote, value] = attributeMatch
+        if (name === STYLE_OBJECT_MARKER || name === REACT_NATIVE_MARKER) {
+          if (name === STYLE_OBJECT_MARKER) {
+            styleObject = value
+          }
+          // Drop the whitespace that separated the marker too
+          while (tokens.length > 0 && /^\s$/.test(String(tokens[tokens.length - 1]))) {
+            tokens.pop()
+          }
+        } else {
+          tokens.push({ name, quote: quote ?? '"', value })
+        }
+        i += raw.length
+      }
+    }
+
+    for (const token of tokens) {
+      if (typeof token === 'string') {
+        result += token
+      } else if (styleObject !== undefined && token.name === 'style' && token.value !== undefined) {
+        result += `style={${cssToStyleObject(token.value, styleObject === 'double' ? '"' : '\'')}}`
+      } else {
+        result += restoreAttribute(token.name, token.value, token.quote, options)
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Whether the inline SVG contains expressions, spreads or directives that only make sense in its host file
+ */
+export function hasDynamicContent (svgContent: string, options: OptimizationOptions = { useCamelCase: true }): boolean {
+  const converted = convertJsxToSvg(svgContent, options)
+  return converted.includes('data-better-svg-temp-') || converted.includes(BASE64_PREFIX) || converted.includes(RAW_PREFIX)
+}
+
+/**
+ * Converts an inline SVG into a standalone SVG document.
+ * Dynamic attributes and interpolations can't be represented in a static file, so they are dropped
+ */
+export function toStandaloneSvg (svgContent: string, options: OptimizationOptions = { useCamelCase: true }): string {
+  let svg = convertJsxToSvg(svgContent, options)
+    .replace(/\s+data-better-svg-temp-[a-zA-Z0-9-_]+="[^"]*"/g, '')
+    .replace(new RegExp(`\\s+(?:${STYLE_OBJECT_MARKER}|${REACT_NATIVE_MARKER})="[^"]*"`, 'g'), '')
+    .replace(ENCODED_PATTERN, '')
+
+  const svgOpenTagMatch = svg.match(/<svg[^>]*>/i)
+  if (svgOpenTagMatch && !/xmlns\s*=\s*["']/.test(svgOpenTagMatch[0])) {
+    svg = svg.replace(/<svg/i, '<svg xmlns="http://www.w3.org/2000/svg"')
+  }
+
+  return svg
+}
+
+// XML declaration, doctype and the comments editors like Illustrator write before the root element
+const XML_PROLOG = /^(?:\s+|<\?xml[\s\S]*?\?>|<!DOCTYPE[^[>]*(?:\[[\s\S]*?\])?\s*>|<!--[\s\S]*?-->)*/i
+
+/**
+ * Returns the `<svg>` element of a standalone SVG document (copied from a design tool, an icon site or a file),
+ * without its XML prolog. Returns undefined when the text is not a single SVG
+ */
+export function extractSvgMarkup (text: string): string | undefined {
+  const svg = text.replace(XML_PROLOG, '').trim()
+  return /^<svg[\s>][\s\S]*(?:<\/svg>|\/>)$/i.test(svg) && !/<\/svg>\s*<svg[\s>]/i.test(svg) ? svg : undefined
+}
+
+/**
+ * Converts standalone SVG markup to JSX: attribute names as the dialect writes them, style attributes as objects
+ * (camelCase only, other JSX runtimes take CSS strings), CSS of `<style>` elements as template literals and comments as JSX comments
+ */
+export function convertMarkupToJsx (svgContent: string, options: OptimizationOptions = { useCamelCase: true }): string {
+  let jsx = convertSvgToJsx(svgContent, options)
+    .replace(/<style([^>]*)>([\s\S]*?)<\/style>/g, (_match, attributes: string, css: string) => {
+      const literal = css
+        .replace(/^\s*<!\[CDATA\[|\]\]>\s*$/g, '')
+        .replace(/[`\\]/g, '\\$&')
+        .replace(/\$\{/g, '\\${')
+      return `<style${attributes}>{\`${literal}\`}</style>`
+    })
+    .replace(/<!--([\s\S]*?)-->/g, (_match, comment: string) => `{/*${comment.replace(/\*\//g, '* /')}*/}`)
+
+  if (options.useCamelCase) {
+    jsx = jsx.replace(/(\s)style="([^"]*)"/g, (_match, space: string, css: string) => `${space}style={${cssToStyleObject(css)}}`)
+  }
+
+  return jsx
 }
 
+/**
+ * Whether the SVG uses syntax of the host framework that isJsxSvg does not know about,
+ * like Angular `[attr.fill]` or `(click)`, or ERB and PHP tags
+ */
+function hasHostSyntax (svgContent: string, options: OptimizationOptions): boolean {
+  if (options.templateTags && /<%|<\?(?:php|=)/.test(svgContent)) {
+    return true
+  }
+
+  const directives = options.directives
+  if (!directives) {
+    return false
+  }
+
+  return Array.from(svgContent.matchAll(/\s([^\s=<>"'{}/]+)(?=\s*=|\s|\/?>)/g)).some(([, name]) => directives.test(name))
+}
 
 /**
  * Prepares JSX SVG content for SVGO optimization
@@ -538,7 +1204,7 @@ export function prepareForOptimization (svgContent: string, options: Optimizatio
   preparedSvg: string
   wasJsx: boolean
 } {
-  const wasJsx = isJsxSvg(svgContent)
+  const wasJsx = isJsxSvg(svgContent) || hasHostSyntax(svgContent, options)
 
   if (wasJsx) {
     return {
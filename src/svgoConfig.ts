@@ -0,0 +1,278 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { pathToFileURL } from 'url'
+import { minimatch } from 'minimatch'
+import type { Config } from 'svgo/browser'
+
+/**
+ * Config file names looked up in the workspace, in order of preference
+ */
+export const SVGO_CONFIG_FILES = [
+  'svgo.config.mjs',
+  'svgo.config.js',
+  'svgo.config.cjs',
+  '.svgorc',
+  '.svgorc.json'
+]
+
+export interface ResolvedSvgoConfig {
+  config: Config
+  /**
+   * Human readable origin of the config (profile name, config file or defaults)
+   */
+  source: string
+}
+
+export interface ResolveSvgoConfigOptions {
+  /**
+   * Optimizing an SVG embedded in another file (JSX, Vue, HTML...)
+   */
+  inline?: boolean
+  /**
+   * Explicit profile name, takes precedence over associations and config files
+   */
+  profile?: string
+}
+
+export function getSvgoPlugins (removeClasses: boolean): any[] {
+  const plugins: any[] = [
+    {
+      name: 'preset-default',
+      params: {
+        overrides: {
+          // Preserve important attributes by default
+          cleanupIds: false,
+          // Disable removing unknown attributes (like onClick, data-*) when preserving classes (inline mode)
+          removeUnknownsAndDefaults: removeClasses
+        }
+      }
+    },
+    'removeDoctype',
+    'removeComments',
+    {
+      name: 'removeAttrs',
+      params: {
+        // Remove attributes that are not useful in most cases
+        attrs: [
+          'xmlns:xlink',
+          'xml:space',
+          ...(removeClasses ? ['class'] : [])
+        ]
+      }
+    }
+  ]
+
+  return plugins
+}
+
+/**
+ * Built-in config used when no profile or workspace config applies
+ */
+export function getDefaultSvgoConfig (inline: boolean): Config {
+  const config = vscode.workspace.getConfiguration('betterSvg')
+  // Inline SVGs always keep their classes, they are usually styled by the host file
+  const removeClasses = inline ? false : config.get<boolean>('removeClasses', true)
+
+  return {
+    multipass: true,
+    plugins: getSvgoPlugins(removeClasses)
+  }
+}
+
+export function getSvgoProfiles (): Record<string, Config> {
+  const config = vscode.workspace.getConfiguration('betterSvg')
+  return config.get<Record<string, Config>>('profiles', {})
+}
+
+/**
+ * Returns the profile associated to the file through `betterSvg.profileAssociations`
+ */
+export function getAssociatedProfile (uri: vscode.Uri): string | undefined {
+  const config = vscode.workspace.getConfiguration('betterSvg')
+  const associations = config.get<Record<string, string>>('profileAssociations', {})
+
+  for (const [pattern, profile] of Object.entries(associations)) {
+    if (uriMatchesGlob(uri, pattern)) {
+      return profile
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Matches a workspace relative path against a glob.
+ * Patterns without a slash match the file name in any folder (like .gitignore)
+ */
+export function matchesGlob (relativePath: string, pattern: string): boolean {
+  return minimatch(relativePath, pattern, { dot: true, matchBase: !pattern.includes('/') })
+}
+
+/**
+ * Matches a file against a glob relative to its workspace folder
+ */
+export function uriMatchesGlob (uri: vscode.Uri, pattern: string): boolean {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri)
+  const relativePath = workspaceFolder
+    ? path.relative(workspaceFolder.uri.fsPath, uri.fsPath).split(path.sep).join('/')
+    : uri.fsPath
+
+  return matchesGlob(relativePath, pattern)
+}
+
+/**
+ * Finds the SVGO config file nearest to the given file, without leaving its workspace folder
+ */
+export async function findSvgoConfigFile (uri: vscode.Uri): Promise<vscode.Uri | undefined> {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri)
+  if (!workspaceFolder || uri.scheme !== 'file') {
+    return undefined
+  }
+
+  const root = workspaceFolder.uri.fsPath
+  let dir = path.dirname(uri.fsPath)
+
+  while (true) {
+    for (const fileName of SVGO_CONFIG_FILES) {
+      const candidate = vscode.Uri.file(path.join(dir, fileName))
+      try {
+        const stat = await vscode.workspace.fs.stat(candidate)
+        if (stat.type & vscode.FileType.File) {
+          return candidate
+        }
+      } catch {
+        // File does not exist, keep looking
+      }
+    }
+
+    const parent = path.dirname(dir)
+    if (dir === root || parent === dir || !parent.startsWith(root)) {
+      return undefined
+    }
+    dir = parent
+  }
+}
+
+/**
+ * Loads an SVGO config file. JS configs are imported as modules, `.svgorc` files are read as JSON
+ */
+export async function loadSvgoConfigFile (configUri: vscode.Uri): Promise<Config> {
+  const fileName = path.basename(configUri.fsPath)
+
+  if (fileName.startsWith('.svgorc')) {
+    const content = await vscode.workspace.fs.readFile(configUri)
+    return JSON.parse(Buffer.from(content).toString('utf8'))
+  }
+
+  // Bust the module cache so edits to the config are picked up without reloading the window
+  const stat = await vscode.workspace.fs.stat(configUri)
+  const moduleUrl = `${pathToFileURL(configUri.fsPath).href}?mtime=${stat.mtime}`
+  const module = await import(moduleUrl)
+  const config = module.default ?? module
+
+  if (!config || typeof config !== 'object') {
+    throw new Error(`${fileName} does not export an SVGO config object`)
+  }
+
+  return config
+}
+
+/**
+ * Resolves the SVGO config for a file. Precedence:
+ * explicit profile > `betterSvg.profileAssociations` > workspace SVGO config file > built-in defaults
+ */
+export async function resolveSvgoConfig (
+  uri: vscode.Uri,
+  options: ResolveSvgoConfigOptions = {}
+): Promise<ResolvedSvgoConfig> {
+  const inline = options.inline ?? false
+  const profileName = options.profile ?? getAssociatedProfile(uri)
+
+  if (profileName) {
+    const profile = getSvgoProfiles()[profileName]
+    if (!profile) {
+      throw new Error(`Unknown SVGO profile "${profileName}"`)
+    }
+
+    return {
+      config: {
+        ...getDefaultSvgoConfig(inline),
+        ...profile
+      },
+      source: `profile "${profileName}"`
+    }
+  }
+
+  const config = vscode.workspace.getConfiguration('betterSvg')
+  if (config.get<boolean>('useSvgoConfigFile', true)) {
+    const configUri = await findSvgoConfigFile(uri)
+    if (configUri) {
+      try {
+        return {
+          config: await loadSvgoConfigFile(configUri),
+          source: vscode.workspace.asRelativePath(configUri)
+        }
+      } catch (error: any) {
+        throw new Error(`Failed to load ${vscode.workspace.asRelativePath(configUri)}: ${error.message ?? error}`)
+      }
+    }
+  }
+
+  return {
+    config: getDefaultSvgoConfig(inline),
+    source: 'built-in defaults'
+  }
+}
+
+/**
+ * Asks the user which profile to use when `betterSvg.promptForProfile` is enabled.
+ * Returns `undefined` for automatic resolution and `null` if the pick was cancelled
+ */
+export async function pickSvgoProfile (uri: vscode.Uri): Promise<string | undefined | null> {
+  const config = vscode.workspace.getConfiguration('betterSvg')
+  const profiles = getSvgoProfiles()
+  const names = Object.keys(profiles)
+
+  if (!config.get<boolean>('promptForProfile', false) || names.length === 0) {
+    return undefined
+  }
+
+  const associated = getAssociatedProfile(uri)
+  const items: Array<vscode.QuickPickItem & { profile?: string }> = [
+    {
+      label: '$(sparkle) Automatic',
+      description: associated ? `profile "${associated}"` : 'workspace config or built-in defaults'
+    },
+    ...names.map(name => ({
+      label: name,
+      description: profiles[name].plugins ? `${profiles[name].plugins.length} plugins` : 'default plugins',
+      profile: name
+    }))
+  ]
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select the SVGO profile to optimize with'
+  })
+
+  if (!picked) {
+    return null
+  }
+
+  return picked.profile
+}
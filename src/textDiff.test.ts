@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { diffText, TextChange } from './textDiff'
+
+const apply = (text: string, changes: TextChange[]) => [...changes]
+    .reverse()
+    .reduce((result, { start, end, text }) => result.slice(0, start) + text + result.slice(end), text)
+
+describe('diffText', () => {
+    it('should return no changes for equal texts', () => {
+        assert.deepStrictEqual(diffText('<svg/>', '<svg/>'), [])
+    })
+
+    it('should narrow a change to the characters that differ', () => {
+        const before = '<svg>\n  <path fill="#ff0000" d="M0 0"/>\n</svg>\n'
+        const after = '<svg>\n  <path fill="#00ff00" d="M0 0"/>\n</svg>\n'
+        assert.deepStrictEqual(diffText(before, after), [{ start: 21, end: 25, text: '00ff' }])
+    })
+
+    it('should keep untouched lines between hunks out of the changes', () => {
+        const before = ['<svg>', '  <g>', '    <path d="M0 0"/>', '    <rect width="1"/>', '    <circle r="1"/>', '  </g>', '</svg>'].join('\n')
+        const after = ['<svg>', '  <g>', '    <path d="M1 1"/>', '    <rect width="1"/>', '    <circle r="2"/>', '  </g>', '</svg>'].join('\n')
+        const changes = diffText(before, after)
+
+        assert.strictEqual(changes.length, 2)
+        assert.deepStrictEqual(changes.map(({ text }) => text), ['1 1', '2'])
+        assert.strictEqual(apply(before, changes), after)
+    })
+
+    it('should handle inserted and removed lines', () => {
+        const before = 'a\nb\nc\nd\ne\n'
+        const after = 'a\nc\nd\nx\ny\ne'
+        const changes = diffText(before, after)
+
+        assert.strictEqual(apply(before, changes), after)
+        assert.deepStrictEqual(changes[0], { start: 2, end: 4, text: '' })
+    })
+
+    it('should round trip unrelated texts', () => {
+        const pairs = [
+            ['', '<svg/>'],
+            ['<svg/>', ''],
+            ['<svg>\n<path/>\n</svg>', '<svg viewBox="0 0 24 24"><path d="M0 0h24"/></svg>'],
+            ['x\ny\nx\ny\n', 'y\nx\ny\nx\n']
+        ]
+        for (const [before, after] of pairs) {
+            assert.strictEqual(apply(before, diffText(before, after)), after)
+        }
+    })
+})
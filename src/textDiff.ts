@@ -0,0 +1,192 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Replacement of the `start`-`end` range of the old text
+ */
+export interface TextChange {
+  start: number
+  end: number
+  text: string
+}
+
+type Operation = 'equal' | 'delete' | 'insert'
+
+// Past this many changed lines the diff costs more than it saves, and the whole range is replaced
+const MAX_EDIT_DISTANCE = 1000
+
+function splitLines (text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? []
+}
+
+/**
+ * Shortest sequence of line operations that turns `a` into `b` (Myers' algorithm).
+ * Returns undefined when they differ in more than MAX_EDIT_DISTANCE lines
+ */
+function diffLines (a: string[], b: string[]): Operation[] | undefined {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // Only the diagonals reachable at each distance are kept, to backtrack the path
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m)
+      }
+    }
+  }
+
+  return undefined
+}
+
+function backtrack (trace: Int32Array[], n: number, m: number): Operation[] {
+  const operations: Operation[] = []
+  let x = n
+  let y = m
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d]
+    const at = (k: number) => v[k + d + 1]
+    const k = x - y
+
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const previousX = at(previousK)
+    const previousY = previousX - previousK
+
+    while (x > previousX && y > previousY) {
+      operations.push('equal')
+      x--
+      y--
+    }
+
+    if (d > 0) {
+      operations.push(x === previousX ? 'insert' : 'delete')
+    }
+
+    x = previousX
+    y = previousY
+  }
+
+  return operations.reverse()
+}
+
+/**
+ * Narrows a change to the characters that actually differ
+ */
+function trimChange (change: TextChange, oldText: string): TextChange | undefined {
+  const removed = oldText.slice(change.start, change.end)
+  const { text } = change
+  const length = Math.min(removed.length, text.length)
+
+  let prefix = 0
+  while (prefix < length && removed[prefix] === text[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (suffix < length - prefix && removed[removed.length - 1 - suffix] === text[text.length - 1 - suffix]) {
+    suffix++
+  }
+
+  if (prefix === removed.length && prefix === text.length) {
+    return undefined
+  }
+
+  return {
+    start: change.start + prefix,
+    end: change.end - suffix,
+    text: text.slice(prefix, text.length - suffix)
+  }
+}
+
+/**
+ * Computes the changed hunks between two texts, as non-overlapping changes of the old text in document order.
+ * Lines are compared first, then every hunk is narrowed to the characters that differ
+ */
+export function diffText (oldText: string, newText: string): TextChange[] {
+  if (oldText === newText) {
+    return []
+  }
+
+  const length = Math.min(oldText.length, newText.length)
+  let prefix = 0
+  while (prefix < length && oldText[prefix] === newText[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (suffix < length - prefix && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) {
+    suffix++
+  }
+
+  const oldEnd = oldText.length - suffix
+  const a = splitLines(oldText.slice(prefix, oldEnd))
+  const b = splitLines(newText.slice(prefix, newText.length - suffix))
+
+  const operations = diffLines(a, b)
+  if (!operations) {
+    return [{ start: prefix, end: oldEnd, text: newText.slice(prefix, newText.length - suffix) }]
+  }
+
+  const changes: TextChange[] = []
+  let hunk: TextChange | undefined
+  let oldOffset = prefix
+  let i = 0
+  let j = 0
+
+  const flush = () => {
+    const change = hunk && trimChange(hunk, oldText)
+    if (change) {
+      changes.push(change)
+    }
+    hunk = undefined
+  }
+
+  for (const operation of operations) {
+    if (operation === 'equal') {
+      flush()
+      oldOffset += a[i++].length
+      j++
+    } else if (operation === 'delete') {
+      hunk ??= { start: oldOffset, end: oldOffset, text: '' }
+      oldOffset += a[i++].length
+      hunk.end = oldOffset
+    } else {
+      hunk ??= { start: oldOffset, end: oldOffset, text: '' }
+      hunk.text += b[j++]
+    }
+  }
+  flush()
+
+  return changes
+}
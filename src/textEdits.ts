@@ -0,0 +1,39 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import { diffText } from './textDiff'
+
+/**
+ * Edits that turn the text of a range into the new text touching only the hunks that changed,
+ * so the cursor, folding, breakpoints and bookmarks elsewhere stay where they are
+ */
+export function getMinimalTextEdits (document: vscode.TextDocument, range: vscode.Range, newText: string): vscode.TextEdit[] {
+  const base = document.offsetAt(range.start)
+  return diffText(document.getText(range), newText).map(change => vscode.TextEdit.replace(
+    new vscode.Range(document.positionAt(base + change.start), document.positionAt(base + change.end)),
+    change.text
+  ))
+}
+
+/**
+ * Adds the minimal edits that replace the text of a range to a workspace edit
+ */
+export function replaceMinimally (edit: vscode.WorkspaceEdit, document: vscode.TextDocument, range: vscode.Range, newText: string) {
+  for (const textEdit of getMinimalTextEdits(document, range, newText)) {
+    edit.replace(document.uri, textEdit.range, textEdit.newText)
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { svgToDataUri } from './utils'
+
+const decode = (dataUri: string) => decodeURIComponent(dataUri.replace('data:image/svg+xml,', ''))
+
+describe('svgToDataUri', () => {
+    it('should percent-encode double quotes and keep single quotes in values', () => {
+        const svg = '<svg viewBox="0 0 1 1"><title id="t">a \'b\'</title><g data-label="a \'b\'"/></svg>'
+        const dataUri = svgToDataUri(svg)
+        assert.ok(!dataUri.includes('"'))
+        assert.strictEqual(decode(dataUri), svg)
+    })
+
+    it('should keep the spaces of text content', () => {
+        const svg = '<svg\n  viewBox="0 0 10 10"\n>\n  <text x="1">Hello   world</text>\n  <title> A  B </title>\n</svg>\n'
+        assert.strictEqual(
+            decode(svgToDataUri(svg)),
+            '<svg viewBox="0 0 10 10"><text x="1">Hello   world</text><title> A  B </title></svg>'
+        )
+    })
+})
@@ -38,3 +38,28 @@ export function calculateSavings (originalContent: string, optimizedContent: str
     optimizedSizeFormatted: formatBytes(optimizedSize)
   }
 }
+
+/**
+ * Encodes an SVG as a compact, URL-encoded data URI (smaller than base64 for SVG markup)
+ */
+export function svgToDataUri (svgContent: string): string {
+  // Only the indentation between tags and the line breaks inside them are dropped, text content keeps its spaces
+  const compact = svgContent
+    .trim()
+    .replace(/>\s*[\r\n]\s*</g, '><')
+    .replace(/<[^>]*>/g, tag => tag.replace(/\s*[\r\n]\s*/g, ' ').replace(/\s+(\/?>)$/, '$1'))
+
+  // Quotes are percent-encoded (%22) so the URI fits in a double-quoted attribute
+  const encoded = encodeURIComponent(compact)
+    .replace(/%20/g, ' ')
+    .replace(/%3D/g, '=')
+    .replace(/%3A/g, ':')
+    .replace(/%2F/g, '/')
+  return `data:image/svg+xml,${encoded}`
+}
+
+export interface SvgBlock {
+  start: number
+  end: number
+  content: string
+}
@@ -0,0 +1,271 @@
+/**
+ * Copyright 2025 Miguel Ángel Durán
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode'
+import * as fs from 'fs'
+import * as path from 'path'
+import { initWasm, Resvg } from '@resvg/resvg-wasm'
+import { optimize } from 'svgo/browser'
+import type { Config } from 'svgo/browser'
+import { disablePlugins, expandPlugins } from './svgOptimizer'
+import { getOutputChannel } from './outputChannel'
+
+// Channel difference (0-255) tolerated per pixel, absorbs anti-aliasing noise
+const PIXEL_TOLERANCE = 32
+
+let wasmReady: Promise<void> | undefined
+let rendererFailureShown = false
+
+interface VisualGuardSettings {
+  mode: 'off' | 'warn' | 'refuse'
+  threshold: number
+  sizes: number[]
+}
+
+export interface VisualComparison {
+  /**
+   * Highest percentage of differing pixels across all the rendered sizes
+   */
+  difference: number
+  passed: boolean
+  /**
+   * Why nothing was compared, set when the renderer failed to load
+   */
+  error?: string
+}
+
+/**
+ * An optimization run whose input and output can be rendered as plain SVG,
+ * plus the text that will be written to the document
+ */
+export interface GuardedOptimization {
+  before: string
+  after: string
+  output: string
+}
+
+function getSettings (): VisualGuardSettings {
+  const config = vscode.workspace.getConfiguration('betterSvg.visualGuard')
+  return {
+    mode: config.get<'off' | 'warn' | 'refuse'>('mode', 'off'),
+    threshold: config.get<number>('threshold', 0.5),
+    sizes: config.get<number[]>('sizes', [16, 64, 256])
+  }
+}
+
+function ensureRenderer (): Promise<void> {
+  if (!wasmReady) {
+    // The wasm binary is copied next to the bundled extension at build time
+    wasmReady = Promise.resolve()
+      .then(() => initWasm(fs.readFileSync(path.join(__dirname, 'resvg.wasm'))))
+      .catch(error => {
+        // Loading is attempted again on the next comparison
+        wasmReady = undefined
+        throw error
+      })
+  }
+  return wasmReady
+}
+
+/**
+ * Logs every failed load of the renderer, and tells the user about the first one
+ */
+function reportRendererFailure (error: unknown): string {
+  const message = `The visual guard could not load its renderer: ${error}`
+  getOutputChannel().appendLine(message)
+
+  if (!rendererFailureShown) {
+    rendererFailureShown = true
+    vscode.window.showErrorMessage(`${message}. Optimizations are ${getSettings().mode === 'refuse' ? 'refused' : 'applied unchecked'} until it loads.`)
+  }
+
+  return message
+}
+
+function render (svgContent: string, size: number) {
+  // resvg needs the SVG namespace to find the root element
+  const svg = /<svg[^>]*\sxmlns\s*=/i.test(svgContent)
+    ? svgContent
+    : svgContent.replace(/<svg/i, '<svg xmlns="http://www.w3.org/2000/svg"')
+
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'width', value: size },
+    font: { loadSystemFonts: false }
+  })
+
+  try {
+    const image = resvg.render()
+    const result = { width: image.width, height: image.height, pixels: image.pixels }
+    image.free()
+    return result
+  } finally {
+    resvg.free()
+  }
+}
+
+/**
+ * Rasterizes both SVGs at the given widths and returns the highest percentage of differing pixels
+ */
+export async function measureVisualDifference (before: string, after: string, sizes: number[]): Promise<number> {
+  await ensureRenderer()
+
+  let difference = 0
+
+  for (const size of sizes) {
+    const original = render(before, size)
+
+    let optimized
+    try {
+      optimized = render(after, size)
+    } catch {
+      return 100
+    }
+
+    if (original.width !== optimized.width || original.height !== optimized.height) {
+      return 100
+    }
+
+    let differingPixels = 0
+    for (let i = 0; i < original.pixels.length; i += 4) {
+      for (let channel = 0; channel < 4; channel++) {
+        if (Math.abs(original.pixels[i + channel] - optimized.pixels[i + channel]) > PIXEL_TOLERANCE) {
+          differingPixels++
+          break
+        }
+      }
+    }
+
+    const totalPixels = original.pixels.length / 4
+    difference = Math.max(difference, totalPixels > 0 ? differingPixels / totalPixels * 100 : 0)
+  }
+
+  return difference
+}
+
+/**
+ * Compares an optimization against `betterSvg.visualGuard.threshold`.
+ * Always passes when the guard is off or the original SVG cannot be rendered.
+ * When the renderer does not load, only passes in `warn` mode
+ */
+export async function compareRenderings (before: string, after: string): Promise<VisualComparison> {
+  const settings = getSettings()
+  if (settings.mode === 'off') {
+    return { difference: 0, passed: true }
+  }
+
+  try {
+    await ensureRenderer()
+  } catch (error) {
+    return { difference: 0, passed: settings.mode !== 'refuse', error: reportRendererFailure(error) }
+  }
+
+  try {
+    const difference = await measureVisualDifference(before, after, settings.sizes)
+    return { difference, passed: difference <= settings.threshold }
+  } catch {
+    // Nothing to compare against if the original itself cannot be rendered
+    return { difference: 0, passed: true }
+  }
+}
+
+/**
+ * Runs every plugin of the config on its own and returns the ones that change the rendering
+ */
+export async function findOffendingPlugins (
+  before: string,
+  config: Config,
+  token?: vscode.CancellationToken
+): Promise<string[]> {
+  const settings = getSettings()
+  const offending: string[] = []
+
+  for (const plugin of expandPlugins(config)) {
+    if (token?.isCancellationRequested) {
+      break
+    }
+
+    const name = typeof plugin === 'string' ? plugin : plugin.name
+
+    try {
+      const after = optimize(before, { ...config, multipass: false, plugins: [plugin] }).data
+      const difference = await measureVisualDifference(before, after, settings.sizes)
+      if (difference > settings.threshold) {
+        offending.push(name)
+      }
+    } catch {
+      offending.push(name)
+    }
+  }
+
+  return offending
+}
+
+/**
+ * Runs an optimization and checks it visually. When the rendering changes beyond the threshold,
+ * warns (or refuses, depending on `betterSvg.visualGuard.mode`) and offers to retry without the offending plugins.
+ * Returns the text to write, or undefined if the optimization must not be applied
+ */
+export async function optimizeWithVisualGuard (
+  config: Config,
+  run: (config: Config) => GuardedOptimization
+): Promise<string | undefined> {
+  const settings = getSettings()
+  const optimization = run(config)
+
+  const { difference, passed, error } = await compareRenderings(optimization.before, optimization.after)
+  if (passed) {
+    return optimization.output
+  }
+
+  // Already reported, there is no rendering to retry against
+  if (error) {
+    return undefined
+  }
+
+  const message = `The optimized SVG renders ${difference.toFixed(2)}% different from the original (threshold ${settings.threshold}%)`
+  const retry = 'Retry Without Offending Plugins'
+  const applyAnyway = 'Apply Anyway'
+
+  const choice = settings.mode === 'refuse'
+    ? await vscode.window.showErrorMessage(`${message}. Optimization refused.`, retry)
+    : await vscode.window.showWarningMessage(message, applyAnyway, retry)
+
+  if (choice === applyAnyway) {
+    return optimization.output
+  }
+
+  if (choice !== retry) {
+    return undefined
+  }
+
+  const offending = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Looking for the SVGO plugins that change the rendering',
+      cancellable: true
+    },
+    (_progress, token) => findOffendingPlugins(optimization.before, config, token)
+  )
+
+  if (offending.length === 0) {
+    vscode.window.showErrorMessage('No single SVGO plugin causes the difference, the optimization was not applied')
+    return undefined
+  }
+
+  vscode.window.showInformationMessage(`Retrying without ${offending.join(', ')}`)
+
+  return optimizeWithVisualGuard(disablePlugins(config, offending), run)
+}